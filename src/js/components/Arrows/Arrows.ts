@@ -6,6 +6,9 @@ import {
   EVENT_MOVED,
   EVENT_REFRESH,
   EVENT_SCROLLED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
   EVENT_UPDATED,
 } from '../../constants/events';
 import { EventInterface } from '../../constructors';
@@ -126,7 +129,16 @@ export function Arrows( Splide: Splide, Components: Components, options: Options
    */
   function listen(): void {
     const { go } = Controller;
-    on( [ EVENT_MOUNTED, EVENT_MOVED, EVENT_UPDATED, EVENT_REFRESH, EVENT_SCROLLED ], update );
+    on( [
+      EVENT_MOUNTED,
+      EVENT_MOVED,
+      EVENT_UPDATED,
+      EVENT_REFRESH,
+      EVENT_SLIDES_ADDED,
+      EVENT_SLIDES_REMOVED,
+      EVENT_SLIDES_MOVED,
+      EVENT_SCROLLED,
+    ], update );
     bind( next, 'click', apply( go, '>', true, undefined ) );
     bind( prev, 'click', apply( go, '<', true, undefined ) );
   }
@@ -161,6 +173,7 @@ export function Arrows( Splide: Splide, Components: Components, options: Options
 
   /**
    * Updates status of arrows, such as `disabled` and `aria-label`.
+   * The next arrow remains enabled while the Source component has more slides to load.
    */
   function update(): void {
     const index     = Splide.index;
@@ -170,7 +183,7 @@ export function Arrows( Splide: Splide, Components: Components, options: Options
     const nextLabel = nextIndex > -1 && index > nextIndex ? i18n.first : i18n.next;
 
     prev.disabled = prevIndex < 0;
-    next.disabled = nextIndex < 0;
+    next.disabled = nextIndex < 0 && ! Components.Source.hasMore();
 
     setAttribute( prev, ARIA_LABEL, prevLabel );
     setAttribute( next, ARIA_LABEL, nextLabel );
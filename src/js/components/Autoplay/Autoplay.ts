@@ -22,7 +22,7 @@ import { INTERVAL_DATA_ATTRIBUTE } from './constants';
 export interface AutoplayComponent extends BaseComponent {
   play(): void;
   pause(): void;
-  isPaused(): boolean;
+  isPaused( manual?: boolean ): boolean;
 }
 
 /**
@@ -39,7 +39,6 @@ export interface AutoplayComponent extends BaseComponent {
 export function Autoplay( Splide: Splide, Components: Components, options: Options ): AutoplayComponent {
   const { on, bind, emit } = EventInterface( Splide );
   const interval = RequestInterval( options.interval, Splide.go.bind( Splide, '>' ), update );
-  const { isPaused } = interval;
   const { Elements } = Components;
 
   /**
@@ -132,12 +131,23 @@ export function Autoplay( Splide: Splide, Components: Components, options: Optio
    * @param manual - If `true`, autoplay keeps paused until `play()` is explicitly called.
    */
   function pause( manual = true ): void {
+    paused = manual;
+
     if ( ! isPaused() ) {
       interval.pause();
       emit( EVENT_AUTOPLAY_PAUSE );
     }
+  }
 
-    paused = manual;
+  /**
+   * Checks if autoplay is paused or not.
+   *
+   * @param manual - Optional. If `true`, checks if autoplay is manually paused, not by hover or focus.
+   *
+   * @return `true` if autoplay is paused.
+   */
+  function isPaused( manual?: boolean ): boolean {
+    return manual ? !! paused : interval.isPaused();
   }
 
   /**
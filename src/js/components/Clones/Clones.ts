@@ -1,9 +1,17 @@
-import { EVENT_REFRESH, EVENT_RESIZE, EVENT_UPDATED } from '../../constants/events';
+import {
+  EVENT_MOVED,
+  EVENT_REFRESH,
+  EVENT_RESIZE,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_UPDATED,
+} from '../../constants/events';
 import { LOOP } from '../../constants/types';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
 import { BaseComponent, Components, Options } from '../../types';
-import { addClass, append, before, ceil, empty, measure, pad, push, rect, remove } from '../../utils';
+import { addClass, append, before, ceil, empty, max, measure, pad, push, rect, remove, style } from '../../utils';
 
 
 /**
@@ -12,6 +20,8 @@ import { addClass, append, before, ceil, empty, measure, pad, push, rect, remove
  * @since 3.0.0
  */
 export interface ClonesComponent extends BaseComponent {
+  isRepeating(): boolean;
+  bridge( distance: number ): void;
 }
 
 /**
@@ -28,13 +38,18 @@ export interface ClonesComponent extends BaseComponent {
 export function Clones( Splide: Splide, Components: Components, options: Options ): ClonesComponent {
   const { on, emit } = EventInterface( Splide );
   const { Elements, Slides } = Components;
-  const { resolve } = Components.Direction;
+  const { resolve, orient } = Components.Direction;
 
   /**
    * Stores all cloned elements.
    */
   const clones: HTMLElement[] = [];
 
+  /**
+   * Stores temporary clones for the rewind.
+   */
+  const temporaries: HTMLElement[] = [];
+
   /**
    * Keeps the current number of clones.
    */
@@ -45,9 +60,11 @@ export function Clones( Splide: Splide, Components: Components, options: Options
    */
   function mount(): void {
     init();
+    on( EVENT_MOVED, clear );
     on( EVENT_REFRESH, destroy );
     on( EVENT_REFRESH, init );
     on( [ EVENT_UPDATED, EVENT_RESIZE ], observe );
+    on( [ EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED, EVENT_SLIDES_MOVED ], regenerate );
   }
 
   /**
@@ -66,6 +83,17 @@ export function Clones( Splide: Splide, Components: Components, options: Options
   function destroy(): void {
     remove( clones );
     empty( clones );
+    clear();
+  }
+
+  /**
+   * Regenerates clones without recreating Slide objects for regular slides.
+   * Called when slides are added or removed.
+   */
+  function regenerate(): void {
+    Slides.unregister( clones );
+    destroy();
+    init();
   }
 
   /**
@@ -79,6 +107,7 @@ export function Clones( Splide: Splide, Components: Components, options: Options
 
   /**
    * Generates the specified number of clones.
+   * If slides are fewer than the count, they are repeated in order so that clones continue seamlessly.
    *
    * @param count - The number of clones to generate for each side.
    */
@@ -116,6 +145,44 @@ export function Clones( Splide: Splide, Components: Components, options: Options
     return clone;
   }
 
+  /**
+   * Generates temporary clones of slides in the view, which are displaced by the distance.
+   * While the list is shifted by the distance to rewind the slider forward, they keep the view unchanged.
+   * These clones are not registered as Slide objects, and are removed after the transition ends.
+   *
+   * @param distance - The distance the list is shifted by in pixel.
+   */
+  function bridge( distance: number ): void {
+    const { totalSize, slideSize, listSize, getPadding } = Components.Layout;
+    const from   = orient( Components.Move.getPosition() ) - getPadding( false );
+    const to     = from + listSize() + getPadding( false ) + getPadding( true );
+    const offset = orient( distance );
+
+    let position = totalSize( Splide.length - 1 );
+
+    clear();
+
+    Slides.forEach( ( { index, slide } ) => {
+      const left = totalSize( index - 1 );
+
+      if ( left < to && totalSize( index, true ) > from ) {
+        const clone = cloneDeep( slide, index );
+        style( clone, 'transform', `translate${ resolve( 'X' ) }(${ orient( position - left - offset ) }px)` );
+        append( Elements.list, clone );
+        push( temporaries, clone );
+        position += slideSize( index );
+      }
+    }, true );
+  }
+
+  /**
+   * Removes temporary clones for the rewind.
+   */
+  function clear(): void {
+    remove( temporaries );
+    empty( temporaries );
+  }
+
   /**
    * Returns the number of elements to generate.
    * This always returns 0 if the slider type is not `'loop'`.
@@ -125,7 +192,7 @@ export function Clones( Splide: Splide, Components: Components, options: Options
   function computeCloneCount(): number {
     let { clones } = options;
 
-    if ( ! Splide.is( LOOP ) ) {
+    if ( ! Splide.is( LOOP ) || options.rearrange ) {
       clones = 0;
     } else if ( ! clones ) {
       const fixedSize  = measure( Elements.list, options[ resolve( 'fixedWidth' ) ] );
@@ -135,11 +202,27 @@ export function Clones( Splide: Splide, Components: Components, options: Options
       clones = baseCount * ( options.drag ? ( options.flickMaxPages || 1 ) + 1 : 2 );
     }
 
+    if ( isRepeating() ) {
+      clones = max( clones, options.perPage * 2 );
+    }
+
     return clones;
   }
 
+  /**
+   * Checks if the loop slider repeats clones because slides are not enough to fill a page.
+   *
+   * @return `true` if the `repeat` option is available and slides do not exceed `perPage`, or otherwise `false`.
+   */
+  function isRepeating(): boolean {
+    const { length } = Splide;
+    return !! options.repeat && Splide.is( LOOP ) && ! options.rearrange && length > 0 && length <= options.perPage;
+  }
+
   return {
     mount,
     destroy,
+    isRepeating,
+    bridge,
   };
 }
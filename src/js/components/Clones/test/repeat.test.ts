@@ -0,0 +1,52 @@
+import { CLASS_CLONE } from '../../../constants/classes';
+import { init } from '../../../test';
+
+
+describe( 'Clones', () => {
+  test( 'can repeat clones if slides do not exceed perPage.', () => {
+    const splide = init( { type: 'loop', perPage: 5, repeat: true }, { length: 3 } );
+    const clones = splide.root.querySelectorAll( `.${ CLASS_CLONE }` );
+    const Clones = splide.Components.Slides.get().filter( Slide => Slide.isClone );
+
+    expect( clones.length ).toBeGreaterThanOrEqual( 20 );
+    expect( splide.Components.Slides.getAt( -1 ).slideIndex ).toBe( 2 );
+    expect( splide.Components.Slides.getAt( 3 ).slideIndex ).toBe( 0 );
+    expect( Clones.filter( Slide => Slide.slideIndex === 0 ).length ).toBeGreaterThan( 1 );
+  } );
+
+  test( 'can loop the slider slide by slide.', () => {
+    const splide = init( { type: 'loop', perPage: 5, repeat: true, speed: 0 }, { length: 3 } );
+
+    splide.go( '>' );
+    expect( splide.index ).toBe( 1 );
+
+    splide.go( '>' );
+    splide.go( '>' );
+    expect( splide.index ).toBe( 0 );
+
+    splide.go( '<' );
+    expect( splide.index ).toBe( 2 );
+  } );
+
+  test( 'can create the pagination for each original slide.', () => {
+    const splide = init( { type: 'loop', perPage: 5, repeat: true, speed: 0 }, { length: 3 } );
+    const { items } = splide.Components.Pagination;
+
+    expect( items.length ).toBe( 3 );
+
+    splide.go( '<' );
+
+    expect( items[ 2 ].button.classList.contains( 'is-active' ) ).toBe( true );
+  } );
+
+  test( 'can start autoplay.', () => {
+    const splide = init( { type: 'loop', perPage: 5, repeat: true, autoplay: true }, { length: 3 } );
+    expect( splide.Components.Autoplay.isPaused() ).toBe( false );
+  } );
+
+  test( 'should not repeat clones if slides exceed perPage.', () => {
+    const splide = init( { type: 'loop', perPage: 2, repeat: true }, { length: 3 } );
+    expect( splide.Components.Clones.isRepeating() ).toBe( false );
+    expect( splide.Components.Controller.hasFocus() ).toBe( false );
+  } );
+} );
@@ -0,0 +1,60 @@
+import { CLASS_CLONE } from '../../../constants/classes';
+import { fire, init } from '../../../test';
+
+
+describe( 'Clones', () => {
+  test( 'can generate temporary clones to rewind the slider forward.', () => {
+    const splide = init( { rewind: 'forward', start: 9 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+
+    const clones = list.querySelectorAll( `.${ CLASS_CLONE }` );
+
+    expect( clones.length ).toBe( 1 );
+    expect( clones[ 0 ].textContent ).toBe( splide.Components.Slides.getAt( 9 ).slide.textContent );
+    expect( ( clones[ 0 ] as HTMLElement ).style.transform ).toBe( 'translateX(-14080px)' );
+    expect( list.lastElementChild ).toBe( clones[ 0 ] );
+    expect( splide.Components.Slides.get().length ).toBe( 10 );
+  } );
+
+  test( 'can shift the list so that clones keep the view.', () => {
+    const splide = init( { rewind: 'forward', start: 9 } );
+    const { list } = splide.Components.Elements;
+    const transforms: string[] = [];
+
+    splide.on( 'move', () => {
+      transforms.push( list.style.transform );
+    } );
+
+    splide.go( '>' );
+
+    expect( transforms[ 0 ] ).toBe( 'translateX(1280px)' );
+    expect( list.style.transform ).toBe( 'translateX(0px)' );
+  } );
+
+  test( 'can place clones after the last slide to rewind backwards.', () => {
+    const splide = init( { rewind: 'forward' } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '<' );
+
+    const clone = list.querySelector( `.${ CLASS_CLONE }` ) as HTMLElement;
+
+    expect( splide.index ).toBe( 9 );
+    expect( clone.textContent ).toBe( splide.Components.Slides.getAt( 0 ).slide.textContent );
+    expect( clone.style.transform ).toBe( 'translateX(0px)' );
+  } );
+
+  test( 'can remove temporary clones after the transition ends.', () => {
+    const splide = init( { rewind: 'forward', start: 9 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+    expect( list.querySelectorAll( `.${ CLASS_CLONE }` ).length ).toBe( 1 );
+
+    fire( list, 'transitionend' );
+    expect( list.querySelectorAll( `.${ CLASS_CLONE }` ).length ).toBe( 0 );
+    expect( splide.index ).toBe( 0 );
+  } );
+} );
@@ -1,10 +1,40 @@
-import { EVENT_REFRESH, EVENT_UPDATED } from '../../constants/events';
+import {
+  EVENT_BEFORE_MOVE,
+  EVENT_MOVED,
+  EVENT_REFRESH,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_UPDATED,
+} from '../../constants/events';
 import { DEFAULT_EVENT_PRIORITY } from '../../constants/priority';
+import { SLUG_DATA_ATTRIBUTE } from '../../constants/project';
+import { DESTROYED } from '../../constants/states';
 import { LOOP, SLIDE } from '../../constants/types';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
-import { AnyFunction, BaseComponent, Components, Options } from '../../types';
-import { approximatelyEqual, between, clamp, floor, isString, isUndefined, max } from '../../utils';
+import { AnyFunction, BaseComponent, Components, NavigationOptions, Options } from '../../types';
+import {
+  approximatelyEqual,
+  between,
+  clamp,
+  floor,
+  getAttribute,
+  isFunction,
+  isString,
+  isUndefined,
+  max,
+  nextTick,
+} from '../../utils';
+import {
+  DEFAULT_QUEUE_DEPTH,
+  REASON_BUSY,
+  REASON_CANCELED,
+  REASON_DESTROYED,
+  REASON_INTERRUPTED,
+  REASON_NOT_ENOUGH,
+  REASON_OUT_OF_RANGE,
+  REASON_SAME_INDEX,
+} from './constants';
 
 
 /**
@@ -13,13 +43,22 @@ import { approximatelyEqual, between, clamp, floor, isString, isUndefined, max }
  * @since 3.0.0
  */
 export interface ControllerComponent extends BaseComponent {
-  go( control: number | string, allowSameIndex?: boolean, callback?: AnyFunction ): void;
-  scroll( destination: number, useIndex?: boolean, snap?: boolean, duration?: number, callback?: AnyFunction ): void;
+  go( control: number | string, allowSameIndex?: boolean, callback?: AnyFunction, navigation?: NavigationOptions ): void;
+  goAsync( control: number | string, allowSameIndex?: boolean, navigation?: NavigationOptions ): Promise<NavigationResult>;
+  scroll(
+    destination: number,
+    useIndex?: boolean,
+    snap?: boolean,
+    duration?: number,
+    callback?: AnyFunction,
+    easingFunc?: ( t: number ) => number
+  ): void;
   getNext( destination?: boolean ): number;
   getPrev( destination?: boolean ): number;
   getAdjacent( prev: boolean, destination?: boolean ): number;
   getEnd(): number;
-  setIndex( index: number ): void;
+  setIndex( index: number, prev?: number ): void;
+  setStart( control: number | string ): void;
   getIndex( prev?: boolean ): number;
   toIndex( page: number ): number;
   toPage( index: number ): number;
@@ -27,6 +66,59 @@ export interface ControllerComponent extends BaseComponent {
   hasFocus(): boolean;
 }
 
+/**
+ * The type for reasons why the navigation request does not complete.
+ *
+ * @since 3.7.0
+ */
+export type NavigationRejection =
+  | typeof REASON_BUSY
+  | typeof REASON_OUT_OF_RANGE
+  | typeof REASON_NOT_ENOUGH
+  | typeof REASON_SAME_INDEX
+  | typeof REASON_CANCELED
+  | typeof REASON_INTERRUPTED
+  | typeof REASON_DESTROYED;
+
+/**
+ * The interface for the result of the navigation request.
+ * The `reason` is only available when the slider does not reach the destination.
+ *
+ * @since 3.7.0
+ */
+export interface NavigationResult {
+  index: number;
+  reason?: NavigationRejection;
+}
+
+/**
+ * The interface for the object passed to `beforemove` handlers.
+ * Handlers can cancel the move or redirect it to another destination by the control pattern.
+ * If a handler returns a Promise, the slider waits for it before moving,
+ * and the rejection of the Promise cancels the move.
+ *
+ * @since 3.7.0
+ */
+export interface MoveGuard {
+  cancel(): void;
+  redirect( control: number | string ): void;
+}
+
+/**
+ * The type for the settler of the navigation request.
+ *
+ * @since 3.7.0
+ */
+type NavigationSettler = ( reason?: NavigationRejection ) => void;
+
+/**
+ * The type for the navigation request held while the slider is moving.
+ * The tuple consists of the control pattern, `allowSameIndex`, the callback, the settler and navigation options.
+ *
+ * @since 3.7.0
+ */
+type NavigationRequest = [ number | string, boolean, AnyFunction, NavigationSettler, NavigationOptions ];
+
 /**
  * The component for controlling the slider.
  *
@@ -49,12 +141,12 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
   /**
    * The current index.
    */
-  let currIndex = options.start || 0;
+  let currIndex: number;
 
   /**
    * The previous index.
    */
-  let prevIndex = currIndex;
+  let prevIndex: number;
 
   /**
    * The latest number of slides.
@@ -71,12 +163,47 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
    */
   let perPage: number;
 
+  /**
+   * Holds the start control that overrides the `start` option on mount.
+   */
+  let initial: number | string;
+
+  /**
+   * Holds the callback and the settler of the request that is in progress.
+   */
+  let pending: [ AnyFunction, NavigationSettler ];
+
+  /**
+   * Holds requests received while the slider is moving if the `queue` option is enabled.
+   */
+  const queue: NavigationRequest[] = [];
+
+  /**
+   * Turns into `true` while waiting for Promises returned by `beforemove` handlers.
+   */
+  let guarding: boolean;
+
   /**
    * Called when the component is mounted.
    */
   function mount(): void {
+    const start = isUndefined( initial ) ? options.start : initial;
+    const found = isString( start ) ? find( start ) : undefined;
+
+    currIndex = prevIndex = found >= 0 ? found : +start || 0;
+
     init();
-    on( [ EVENT_UPDATED, EVENT_REFRESH ], init, DEFAULT_EVENT_PRIORITY - 1 );
+    on( [ EVENT_UPDATED, EVENT_REFRESH, EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED ], init, DEFAULT_EVENT_PRIORITY - 1 );
+    on( EVENT_REFRESH, () => { clear( REASON_INTERRUPTED ) } );
+    on( EVENT_MOVED, () => { nextTick( flush ) } );
+  }
+
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    clear( REASON_DESTROYED );
+    settle( REASON_DESTROYED );
   }
 
   /**
@@ -98,22 +225,307 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
    * @param control        - A control pattern.
    * @param allowSameIndex - Optional. Determines whether to allow to go to the current index or not.
    * @param callback       - Optional. A callback function invoked after transition ends.
+   * @param navigation     - Optional. Options that override the transition of this move.
+   */
+  function go(
+    control: number | string,
+    allowSameIndex?: boolean,
+    callback?: AnyFunction,
+    navigation?: NavigationOptions
+  ): void {
+    navigate( control, allowSameIndex, callback, null, navigation );
+  }
+
+  /**
+   * Moves the slider by the control pattern and returns a Promise
+   * resolved after the slider reaches the destination, or when the request turns out to be rejected.
+   *
+   * @see `Splide#goAsync()`
+   *
+   * @param control        - A control pattern.
+   * @param allowSameIndex - Optional. Determines whether to allow to go to the current index or not.
+   * @param navigation     - Optional. Options that override the transition of this move.
+   *
+   * @return A Promise instance resolved with a NavigationResult object.
+   */
+  function goAsync(
+    control: number | string,
+    allowSameIndex?: boolean,
+    navigation?: NavigationOptions
+  ): Promise<NavigationResult> {
+    return new Promise( resolve => {
+      navigate( control, allowSameIndex, () => { settle() }, reason => {
+        resolve( { index: currIndex, reason } );
+      }, navigation );
+    } );
+  }
+
+  /**
+   * Attempts to move the slider by the control pattern.
+   * If the slider is busy and the `queue` option is enabled, the request is held until the transition ends.
+   * The control that refers to an unknown ID or slug is rejected as out of range.
+   *
+   * @param control        - A control pattern.
+   * @param allowSameIndex - Optional. Determines whether to allow to go to the current index or not.
+   * @param callback       - Optional. A callback function invoked after transition ends.
+   * @param settler        - Optional. A function invoked when the request completes or turns out to be rejected.
+   * @param navigation     - Optional. Options that override the transition of this move.
+   * @param guarded        - Optional. Set `true` to skip `beforemove` handlers that have already accepted the request.
    */
-  function go( control: number | string, allowSameIndex?: boolean, callback?: AnyFunction ): void {
+  function navigate(
+    control: number | string,
+    allowSameIndex?: boolean,
+    callback?: AnyFunction,
+    settler?: NavigationSettler,
+    navigation: NavigationOptions = {},
+    guarded?: boolean
+  ): void {
     const dest = parse( control );
 
-    if ( options.useScroll ) {
-      scroll( dest, true, true, options.speed, callback );
+    if ( isString( control ) && find( control ) < 0 ) {
+      reject( REASON_OUT_OF_RANGE, callback, settler );
+    } else if ( options.useScroll ) {
+      if ( guarded || guard( dest, dest, allowSameIndex, callback, settler, navigation ) ) {
+        const { speed = options.speed } = navigation;
+        prepare( callback, settler );
+        scroll( dest, true, true, navigation.instant ? 0 : speed, callback, navigation.easingFunc );
+      }
     } else {
-      const index = loop( dest );
-
-      if ( index > -1 && ! Move.isBusy() && ( allowSameIndex || index !== currIndex ) ) {
+      const index  = loop( dest );
+      const reason = index < 0
+        ? isEnough() ? REASON_OUT_OF_RANGE : REASON_NOT_ENOUGH
+        : Move.isBusy() || guarding
+          ? REASON_BUSY
+          : ! allowSameIndex && index === currIndex ? REASON_SAME_INDEX : undefined;
+
+      if ( reason ) {
+        if ( reason !== REASON_BUSY || ! options.queue || ! enqueue( [ control, allowSameIndex, callback, settler, navigation ] ) ) {
+          reject( reason, callback, settler );
+        }
+      } else if ( guarded || guard( dest, index, allowSameIndex, callback, settler, navigation ) ) {
+        prepare( callback, settler );
         setIndex( index );
-        Move.move( dest, index, prevIndex, callback );
+        Move.move( dest, index, prevIndex, callback, navigation );
       }
     }
   }
 
+  /**
+   * Emits the `beforemove` event and lets handlers cancel or redirect the request.
+   * If some handlers return Promises, the request is suspended until all of them are settled.
+   *
+   * @param dest           - A destination index.
+   * @param index          - A slide index to go to.
+   * @param allowSameIndex - Determines whether to allow to go to the current index or not.
+   * @param callback       - A callback function for the request.
+   * @param settler        - A settler function for the request.
+   * @param navigation     - Navigation options for the request.
+   *
+   * @return `true` if the request can proceed immediately, or otherwise `false`.
+   */
+  function guard(
+    dest: number,
+    index: number,
+    allowSameIndex: boolean,
+    callback: AnyFunction,
+    settler: NavigationSettler,
+    navigation: NavigationOptions
+  ): boolean {
+    let canceled: boolean;
+    let redirection: number | string;
+
+    const object: MoveGuard = {
+      cancel() {
+        canceled = true;
+      },
+      redirect( control: number | string ) {
+        redirection = control;
+      },
+    };
+
+    const promises = Splide.event.emit( EVENT_BEFORE_MOVE, index, currIndex, dest, object )
+      .filter( result => result && isFunction( result.then ) );
+
+    /**
+     * Cancels, redirects or resumes the request according to results of handlers.
+     *
+     * @param resume - Determines whether to resume the suspended request or not.
+     */
+    function proceed( resume?: boolean ): void {
+      if ( canceled ) {
+        reject( REASON_CANCELED, callback, settler );
+        restore();
+      } else if ( ! isUndefined( redirection ) || resume ) {
+        navigate( isUndefined( redirection ) ? dest : redirection, allowSameIndex, callback, settler, navigation, true );
+      }
+    }
+
+    if ( promises.length ) {
+      guarding = true;
+
+      Promise.all( promises ).then( null, () => { canceled = true } ).then( () => {
+        guarding = false;
+
+        if ( Splide.state.is( DESTROYED ) ) {
+          reject( REASON_DESTROYED, callback, settler );
+        } else {
+          proceed( true );
+          nextTick( flush );
+        }
+      } );
+
+      return false;
+    }
+
+    proceed();
+
+    return ! canceled && isUndefined( redirection );
+  }
+
+  /**
+   * Rejects the request with the reason.
+   * If the request is the following move of the pending one, the pending request completes.
+   *
+   * @param reason   - A reason why the request is rejected.
+   * @param callback - A callback function for the request.
+   * @param settler  - A settler function for the request.
+   */
+  function reject( reason: NavigationRejection, callback: AnyFunction, settler: NavigationSettler ): void {
+    if ( pending && pending[ 0 ] === callback ) {
+      settle();
+    }
+
+    settler && settler( reason );
+  }
+
+  /**
+   * Moves the slider back to the current index if it is left out of place, for example, after drag.
+   */
+  function restore(): void {
+    if ( ! options.useScroll && ! Move.isBusy() ) {
+      if ( ! approximatelyEqual( getPosition(), Move.toPosition( currIndex, true ), 1 ) ) {
+        Move.move( currIndex, currIndex, prevIndex );
+      }
+    }
+  }
+
+  /**
+   * Settles the pending request as interrupted if the new callback belongs to another request,
+   * and registers the new one.
+   * The callback may be reused by the `trimSpace: 'move'` process for the same request.
+   * In this case, the request completes even if the following move is rejected.
+   *
+   * @param callback - A callback function for the new request.
+   * @param settler  - Optional. A settler function for the new request.
+   */
+  function prepare( callback: AnyFunction, settler?: NavigationSettler ): void {
+    if ( ! pending || pending[ 0 ] !== callback ) {
+      settle( REASON_INTERRUPTED );
+      pending = callback && [ callback, settler ];
+    }
+  }
+
+  /**
+   * Settles the pending request.
+   *
+   * @param reason - Optional. A reason if the request does not complete.
+   */
+  function settle( reason?: NavigationRejection ): void {
+    const settler = pending && pending[ 1 ];
+    pending = null;
+    settler && settler( reason );
+  }
+
+  /**
+   * Adds the request to the queue.
+   * In the `'coalesce'` mode, the request is merged into the last one if both move by offsets in the same direction.
+   * `'>'` and `'<'` are never merged, since their destinations depend on the index when they are executed.
+   *
+   * @param request - A request to hold.
+   *
+   * @return `true` if the request is held, or otherwise `false` that means the queue is full.
+   */
+  function enqueue( request: NavigationRequest ): boolean {
+    const last = queue[ queue.length - 1 ];
+
+    if ( options.queue === 'coalesce' && last ) {
+      const step1 = toStep( last[ 0 ] );
+      const step2 = toStep( request[ 0 ] );
+      const total = step1 + step2;
+
+      if ( step1 * step2 > 0 ) {
+        queue[ queue.length - 1 ] = [
+          total > 0 ? `+${ total }` : `${ total }`,
+          last[ 1 ] || request[ 1 ],
+          chain( last[ 2 ], request[ 2 ] ),
+          chain( last[ 3 ], request[ 3 ] ),
+          request[ 4 ],
+        ];
+
+        return true;
+      }
+    }
+
+    if ( queue.length < ( options.queueDepth || DEFAULT_QUEUE_DEPTH ) ) {
+      queue.push( request );
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Executes held requests in order until one of them is accepted.
+   * Rejected ones are settled with the reason and skipped.
+   */
+  function flush(): void {
+    while ( queue.length && ! Move.isBusy() && ! guarding ) {
+      navigate( ...queue.shift() );
+    }
+  }
+
+  /**
+   * Clears held requests with settling them by the provided reason.
+   *
+   * @param reason - A reason to settle requests with.
+   */
+  function clear( reason: NavigationRejection ): void {
+    queue.splice( 0 ).forEach( request => {
+      request[ 3 ] && request[ 3 ]( reason );
+    } );
+  }
+
+  /**
+   * Converts the control pattern that moves by an offset, such as `'+2'`, to the number of slides to move.
+   *
+   * @param control - A control pattern.
+   *
+   * @return The number of slides to move, or `0` if the control does not move by an offset.
+   */
+  function toStep( control: number | string ): number {
+    const [ , indicator, number ] = isString( control ) && control.match( /^([+-])(\d+)?$/ ) || [];
+    return indicator ? +`${ indicator }${ +number || 1 }` : 0;
+  }
+
+  /**
+   * Returns a function that invokes both provided functions if available.
+   *
+   * @param func1 - Optional. A function to invoke first.
+   * @param func2 - Optional. A function to invoke next.
+   *
+   * @return A chained function, or `undefined` if both are not provided.
+   */
+  function chain<F extends AnyFunction>( func1: F, func2: F ): F {
+    if ( func1 && func2 ) {
+      return ( ( ...args: Parameters<F> ) => {
+        func1( ...args );
+        func2( ...args );
+      } ) as F;
+    }
+
+    return func1 || func2;
+  }
+
   /**
    * Scrolls the slider to the specified destination with updating indices.
    *
@@ -122,20 +534,24 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
    * @param snap        - Optional. Whether to snap the closest slide or not.
    * @param duration    - Optional. Specifies the scroll duration.
    * @param callback    - Optional. A callback function invoked after scroll ends.
+   * @param easingFunc  - Optional. An easing function for this scroll.
    */
   function scroll(
     destination: number,
     useIndex?: boolean,
     snap?: boolean,
     duration?: number,
-    callback?: AnyFunction
+    callback?: AnyFunction,
+    easingFunc?: ( t: number ) => number
   ): void {
     const dest = useIndex ? destination : toDest( destination );
 
+    prepare( callback );
+
     Components.Scroll.scroll( useIndex || snap ? Move.toPosition( dest, true ) : destination, duration, () => {
       setIndex( Move.toIndex( Move.getPosition() ) );
       callback && callback();
-    } );
+    }, false, easingFunc );
   }
 
   /**
@@ -150,8 +566,11 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
 
     if ( isString( control ) ) {
       const [ , indicator, number ] = control.match( /([+\-<>])(\d+)?/ ) || [];
+      const found = find( control );
 
-      if ( indicator === '+' || indicator === '-' ) {
+      if ( ! isUndefined( found ) ) {
+        index = found < 0 ? currIndex : isLoop ? found : clamp( found, 0, getEnd() );
+      } else if ( indicator === '+' || indicator === '-' ) {
         index = computeDestIndex( currIndex + +`${ indicator }${ +number || 1 }`, currIndex, true );
       } else if ( indicator === '>' ) {
         index = number ? toIndex( +number ) : getNext( true );
@@ -165,6 +584,29 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
     return index;
   }
 
+  /**
+   * Finds the slide by the control pattern that refers to the element ID or the slug,
+   * such as `'#product-42'` or `'slug:summer'`.
+   * The slug is provided by the `data-splide-slug` attribute.
+   *
+   * @param control - A control pattern.
+   *
+   * @return An index of the found slide, `-1` if no slide matches,
+   *         or `undefined` if the control does not refer to the ID or the slug.
+   */
+  function find( control: string ): number {
+    const [ , prefix, name ] = control.match( /^(#|slug:)(.+)$/ ) || [];
+
+    if ( prefix ) {
+      const [ Slide ] = Components.Slides.filter( ( { slide, isClone } ) => ! isClone && ( prefix === '#'
+        ? slide.id === name
+        : getAttribute( slide, SLUG_DATA_ATTRIBUTE ) === name
+      ) );
+
+      return Slide ? Slide.index : -1;
+    }
+  }
+
   /**
    * Returns a next destination index.
    *
@@ -235,7 +677,9 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
             dest = perMove || hasFocus()
               ? dest
               : dest < 0 ? - ( slideCount % perPage || perPage ) : slideCount;
-          } else if ( options.rewind ) {
+          } else if ( rewindsForward() ) {
+            dest = dest < 0 ? end - slideCount : slideCount;
+          } else if ( options.rewind && ! Components.Source.hasMore() ) {
             dest = dest < 0 ? end : 0;
           } else {
             dest = -1;
@@ -257,6 +701,7 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
    * Returns the end index where the slider can go.
    * For example, if the slider has 10 slides and the `perPage` option is 3,
    * the slider can go to the slide 8 (the index is 7).
+   * While the Source component has more slides to load, the index of the placeholder slide is also reachable.
    *
    * @return An end index.
    */
@@ -267,24 +712,34 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
       end = slideCount - 1;
     }
 
-    return max( end, 0 );
+    return max( end, 0 ) + ( Components.Source.hasMore() ? 1 : 0 );
   }
 
   /**
-   * Loops the provided index only in the loop mode.
+   * Loops the provided index only in the loop mode, or when the slide slider rewinds forward.
    *
    * @param index - An index to loop.
    *
    * @return A looped index.
    */
   function loop( index: number ): number {
-    if ( isLoop ) {
+    if ( isLoop || rewindsForward() ) {
       return isEnough() ? index % slideCount + ( index < 0 ? slideCount : 0 ) : -1;
     }
 
     return index;
   }
 
+  /**
+   * Checks if the slide slider rewinds forward through temporary clones or not.
+   * In this case, destinations beyond edges are looped as the loop slider does.
+   *
+   * @return `true` if the slider rewinds forward, or otherwise `false`.
+   */
+  function rewindsForward(): boolean {
+    return isSlide && options.rewind === 'forward' && ! Components.Source.hasMore();
+  }
+
   /**
    * Converts the page index to the slide index.
    *
@@ -322,16 +777,31 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
     return isSlide ? clamp( closest, 0, getEnd() ) : closest;
   }
 
+  /**
+   * Overrides the `start` option for the mount, without modifying options.
+   * This must be called before the component is mounted, for example, in `setup()` of other components.
+   *
+   * @param control - A start index, or a control pattern that refers to the ID or the slug.
+   */
+  function setStart( control: number | string ): void {
+    initial = control;
+  }
+
   /**
    * Sets a new index and retains old one.
    *
    * @param index - A new index to set.
+   * @param prev  - Optional. Explicitly sets the previous index instead of the old one.
    */
-  function setIndex( index: number ): void {
+  function setIndex( index: number, prev?: number ): void {
     if ( index !== currIndex ) {
       prevIndex = currIndex;
       currIndex = index;
     }
+
+    if ( ! isUndefined( prev ) ) {
+      prevIndex = prev;
+    }
   }
 
   /**
@@ -345,22 +815,26 @@ export function Controller( Splide: Splide, Components: Components, options: Opt
 
   /**
    * Verifies if the focus option is available or not.
+   * The loop slider that repeats clones is also regarded as focused, since it moves slide by slide.
    *
    * @return `true` if the slider has the focus option.
    */
   function hasFocus(): boolean {
-    return ! isUndefined( options.focus ) || options.isNavigation;
+    return ! isUndefined( options.focus ) || options.isNavigation || Components.Clones.isRepeating();
   }
 
   return {
     mount,
+    destroy,
     go,
+    goAsync,
     scroll,
     getNext,
     getPrev,
     getAdjacent,
     getEnd,
     setIndex,
+    setStart,
     getIndex,
     toIndex,
     toPage,
@@ -0,0 +1,55 @@
+/**
+ * The reason given when the slider is busy and can not accept the request.
+ *
+ * @since 3.7.0
+ */
+export const REASON_BUSY = 'busy';
+
+/**
+ * The reason given when the destination is out of the range.
+ *
+ * @since 3.7.0
+ */
+export const REASON_OUT_OF_RANGE = 'outOfRange';
+
+/**
+ * The reason given when there are not enough slides to move the slider.
+ *
+ * @since 3.7.0
+ */
+export const REASON_NOT_ENOUGH = 'notEnough';
+
+/**
+ * The reason given when the destination is the current index.
+ *
+ * @since 3.7.0
+ */
+export const REASON_SAME_INDEX = 'sameIndex';
+
+/**
+ * The reason given when a `beforemove` handler cancels the request.
+ *
+ * @since 3.7.0
+ */
+export const REASON_CANCELED = 'canceled';
+
+/**
+ * The reason given when another request has taken over the transition.
+ *
+ * @since 3.7.0
+ */
+export const REASON_INTERRUPTED = 'interrupted';
+
+/**
+ * The reason given when the slider has been destroyed before the transition ends.
+ *
+ * @since 3.7.0
+ */
+export const REASON_DESTROYED = 'destroyed';
+
+/**
+ * The default max number of requests to hold while the slider is moving.
+ *
+ * @since 3.7.0
+ */
+export const DEFAULT_QUEUE_DEPTH = 5;
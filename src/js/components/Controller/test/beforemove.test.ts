@@ -0,0 +1,80 @@
+import { EVENT_BEFORE_MOVE, EVENT_MOVE } from '../../../constants/events';
+import { init, wait } from '../../../test';
+
+
+describe( 'Controller#go() with beforemove handlers', () => {
+  test( 'can emit the beforemove event before the slider moves.', () => {
+    const splide   = init( { speed: 0 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_BEFORE_MOVE, ( index, prev, dest ) => {
+      callback( index, prev, dest, splide.index );
+    } );
+
+    splide.go( 2 );
+    expect( callback ).toHaveBeenCalledWith( 2, 0, 2, 0 );
+    expect( splide.index ).toBe( 2 );
+  } );
+
+  test( 'can cancel the move.', async () => {
+    const splide = init( { speed: 0 } );
+    const onMove = jest.fn();
+
+    splide.on( EVENT_MOVE, onMove );
+    splide.on( EVENT_BEFORE_MOVE, ( index, prev, dest, guard ) => {
+      guard.cancel();
+    } );
+
+    const result = await splide.goAsync( '>' );
+
+    expect( result.reason ).toBe( 'canceled' );
+    expect( splide.index ).toBe( 0 );
+    expect( onMove ).not.toHaveBeenCalled();
+  } );
+
+  test( 'can redirect the move to another destination.', async () => {
+    const splide = init( { speed: 0 } );
+
+    splide.on( EVENT_BEFORE_MOVE, ( index, prev, dest, guard ) => {
+      if ( index > 3 ) {
+        guard.redirect( 3 );
+      }
+    } );
+
+    splide.go( 5 );
+    expect( splide.index ).toBe( 3 );
+
+    expect( ( await splide.goAsync( '>' ) ).index ).toBe( 3 );
+  } );
+
+  test( 'can wait for the promise returned by the handler.', async () => {
+    const splide = init( { speed: 0 } );
+    let valid = false;
+
+    splide.on( EVENT_BEFORE_MOVE, ( index, prev, dest, guard ) => {
+      return wait( 10 ).then( () => {
+        ! valid && guard.cancel();
+      } );
+    } );
+
+    const promise1 = splide.goAsync( '>' );
+    expect( splide.index ).toBe( 0 );
+    expect( ( await splide.goAsync( '>' ) ).reason ).toBe( 'busy' );
+    expect( ( await promise1 ).reason ).toBe( 'canceled' );
+
+    valid = true;
+
+    const result = await splide.goAsync( '>' );
+    expect( result.index ).toBe( 1 );
+    expect( result.reason ).toBeUndefined();
+  } );
+
+  test( 'should cancel the move if the returned promise is rejected.', async () => {
+    const splide = init( { speed: 0 } );
+
+    splide.on( EVENT_BEFORE_MOVE, () => Promise.reject( new Error( 'invalid' ) ) );
+
+    expect( ( await splide.goAsync( '>' ) ).reason ).toBe( 'canceled' );
+    expect( splide.index ).toBe( 0 );
+  } );
+} );
@@ -0,0 +1,61 @@
+import { init } from '../../../test';
+
+
+describe( 'Controller#go() with the ID or the slug', () => {
+  function setup( options = {} ) {
+    const splide = init( Object.assign( { speed: 0 }, options ), { mount: false } );
+
+    splide.root.querySelectorAll( '.splide__slide' ).forEach( ( slide, index ) => {
+      slide.id = `product-${ index }`;
+      slide.setAttribute( 'data-splide-slug', `slug-${ index }` );
+    } );
+
+    return splide.mount();
+  }
+
+  test( 'can go to the slide by the element ID.', () => {
+    const splide = setup();
+
+    splide.go( '#product-4' );
+    expect( splide.index ).toBe( 4 );
+
+    splide.go( '#product-1' );
+    expect( splide.index ).toBe( 1 );
+  } );
+
+  test( 'can go to the slide by the slug.', () => {
+    const splide = setup();
+
+    splide.go( 'slug:slug-6' );
+    expect( splide.index ).toBe( 6 );
+  } );
+
+  test( 'should not move the slider if no slide matches.', async () => {
+    const splide = setup();
+
+    splide.go( 2 );
+    splide.go( '#product-99' );
+    expect( splide.index ).toBe( 2 );
+
+    const result = await splide.goAsync( 'slug:unknown-1' );
+
+    expect( result.index ).toBe( 2 );
+    expect( result.reason ).toBe( 'outOfRange' );
+  } );
+
+  test( 'can start from the slide specified by the ID or the slug.', () => {
+    expect( setup( { start: '#product-3' } ).index ).toBe( 3 );
+    expect( setup( { start: 'slug:slug-5' } ).index ).toBe( 5 );
+    expect( setup( { start: 'slug:unknown' } ).index ).toBe( 0 );
+  } );
+
+  test( 'can start from the index provided as a numeric string.', () => {
+    expect( setup( { start: '2' } ).index ).toBe( 2 );
+    expect( setup( { start: 'invalid' } ).index ).toBe( 0 );
+  } );
+
+  test( 'should keep IDs provided by the author.', () => {
+    const splide = setup();
+    expect( splide.Components.Slides.getAt( 2 ).slide.id ).toBe( 'product-2' );
+  } );
+} );
@@ -0,0 +1,95 @@
+import { EVENT_MOVED } from '../../../constants/events';
+import { fire, init } from '../../../test';
+
+
+describe( 'Controller#goAsync()', () => {
+  test( 'can resolve the promise after the slider moves.', async () => {
+    const splide = init( { width: 200, height: 100 } );
+    const { list } = splide.Components.Elements;
+    const callback = jest.fn();
+
+    splide.on( EVENT_MOVED, callback );
+
+    const promise = splide.goAsync( '>' );
+    expect( callback ).not.toHaveBeenCalled();
+
+    fire( list, 'transitionend' );
+
+    const result = await promise;
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( result.index ).toBe( 1 );
+    expect( result.reason ).toBeUndefined();
+  } );
+
+  test( 'can resolve the promise immediately if the speed is 0.', async () => {
+    const splide = init( { speed: 0 } );
+
+    expect( ( await splide.goAsync( 2 ) ).index ).toBe( 2 );
+    expect( ( await splide.goAsync( '+2' ) ).index ).toBe( 4 );
+  } );
+
+  test( 'can resolve the promise with the reason when the slider is busy.', async () => {
+    const splide = init( { width: 200, height: 100 } );
+
+    splide.go( '>' );
+
+    const result = await splide.goAsync( '>' );
+    expect( result.index ).toBe( 1 );
+    expect( result.reason ).toBe( 'busy' );
+  } );
+
+  test( 'can resolve the promise with the reason when there is no slide to go.', async () => {
+    const splide = init( { speed: 0 }, { length: 2 } );
+
+    await splide.goAsync( '>' );
+
+    const result = await splide.goAsync( '>' );
+    expect( result.index ).toBe( 1 );
+    expect( result.reason ).toBe( 'outOfRange' );
+  } );
+
+  test( 'can resolve the promise with the reason when slides are not enough.', async () => {
+    const splide = init( { speed: 0, perPage: 3 }, { length: 3 } );
+    const result = await splide.goAsync( '>' );
+
+    expect( result.index ).toBe( 0 );
+    expect( result.reason ).toBe( 'notEnough' );
+  } );
+
+  test( 'can resolve the promise with the reason when the destination is the current index.', async () => {
+    const splide = init( { speed: 0 } );
+    expect( ( await splide.goAsync( 0 ) ).reason ).toBe( 'sameIndex' );
+  } );
+
+  test( 'can resolve the old promise as interrupted when another request takes over the transition.', async () => {
+    const splide = init( { width: 200, height: 100, waitForTransition: false } );
+    const { list } = splide.Components.Elements;
+
+    const promise1 = splide.goAsync( 1 );
+    const promise2 = splide.goAsync( 3 );
+
+    expect( ( await promise1 ).reason ).toBe( 'interrupted' );
+
+    fire( list, 'transitionend' );
+
+    const result = await promise2;
+    expect( result.index ).toBe( 3 );
+    expect( result.reason ).toBeUndefined();
+  } );
+
+  test( 'can resolve the promise with the reason when the slider is destroyed.', async () => {
+    const splide  = init( { width: 200, height: 100 } );
+    const promise = splide.goAsync( '>' );
+
+    splide.destroy();
+    expect( ( await promise ).reason ).toBe( 'destroyed' );
+  } );
+
+  test( 'can resolve the promise after scroll ends if the useScroll option is enabled.', async () => {
+    const splide = init( { width: 200, height: 100, useScroll: true, speed: 10 } );
+    const result = await splide.goAsync( 2 );
+
+    expect( result.index ).toBe( 2 );
+    expect( result.reason ).toBeUndefined();
+  } );
+} );
@@ -0,0 +1,111 @@
+import { fire, init, wait } from '../../../test';
+
+
+describe( 'Controller#go() with the queue option', () => {
+  test( 'should drop requests while the slider is moving if the queue option is disabled.', async () => {
+    const splide = init( { width: 200, height: 100 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+    splide.go( '>' );
+    splide.go( '>' );
+
+    fire( list, 'transitionend' );
+    await wait();
+
+    expect( splide.index ).toBe( 1 );
+  } );
+
+  test( 'can hold requests and execute them one by one after each transition ends.', async () => {
+    const splide = init( { width: 200, height: 100, queue: true } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+    splide.go( '>' );
+    splide.go( 5 );
+    expect( splide.index ).toBe( 1 );
+
+    fire( list, 'transitionend' );
+    await wait();
+    expect( splide.index ).toBe( 2 );
+
+    fire( list, 'transitionend' );
+    await wait();
+    expect( splide.index ).toBe( 5 );
+  } );
+
+  test( 'can coalesce successive offsets in the same direction.', async () => {
+    const splide = init( { width: 200, height: 100, queue: 'coalesce' } );
+    const { list } = splide.Components.Elements;
+    const promises = [];
+
+    splide.go( '>' );
+    promises.push( splide.goAsync( '+1' ) );
+    promises.push( splide.goAsync( '+' ) );
+    promises.push( splide.goAsync( '+1' ) );
+    expect( splide.index ).toBe( 1 );
+
+    fire( list, 'transitionend' );
+    await wait();
+    expect( splide.index ).toBe( 4 );
+
+    fire( list, 'transitionend' );
+
+    const results = await Promise.all( promises );
+    expect( results.every( result => result.index === 4 && ! result.reason ) ).toBe( true );
+  } );
+
+  test( 'should not coalesce "<" and ">" so that they land on the same slide as successive calls.', async () => {
+    const options  = { width: 200, height: 100, perPage: 3, rewind: true, start: 4 };
+    const ref      = init( { ...options, speed: 0 } );
+    const expected = [ ref.go( '>' ).index, ref.go( '>' ).index, ref.go( '>' ).index ];
+
+    expect( expected ).toEqual( [ 6, 7, 0 ] );
+
+    const splide   = init( { ...options, queue: 'coalesce' } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+    splide.go( '>' );
+    splide.go( '>' );
+    expect( splide.index ).toBe( expected[ 0 ] );
+
+    fire( list, 'transitionend' );
+    await wait();
+    expect( splide.index ).toBe( expected[ 1 ] );
+
+    fire( list, 'transitionend' );
+    await wait();
+    expect( splide.index ).toBe( expected[ 2 ] );
+  } );
+
+  test( 'should reject requests over the queue depth.', async () => {
+    const splide = init( { width: 200, height: 100, queue: true, queueDepth: 1 } );
+
+    splide.go( '>' );
+    splide.go( '>' );
+
+    expect( ( await splide.goAsync( '>' ) ).reason ).toBe( 'busy' );
+  } );
+
+  test( 'can clear held requests on refresh and destroy.', async () => {
+    const splide = init( { width: 200, height: 100, queue: true } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+
+    const promise1 = splide.goAsync( '>' );
+    splide.refresh();
+    expect( ( await promise1 ).reason ).toBe( 'interrupted' );
+
+    fire( list, 'transitionend' );
+    await wait();
+    expect( splide.index ).toBe( 1 );
+
+    splide.go( '>' );
+
+    const promise2 = splide.goAsync( '>' );
+    splide.destroy();
+    expect( ( await promise2 ).reason ).toBe( 'destroyed' );
+  } );
+} );
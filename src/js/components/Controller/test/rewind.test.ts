@@ -28,4 +28,29 @@ describe( 'Controller#go()', () => {
     splide.go( '>' );
     expect( splide.index ).toBe( 0 );
   } );
+
+  test( 'can rewind the slider forward.', () => {
+    const splide = init( { rewind: 'forward', perPage: 3, speed: 0 }, { length: 4 } );
+    const callback = jest.fn();
+
+    splide.on( 'move', callback );
+
+    splide.go( '<' );
+    expect( splide.index ).toBe( 1 );
+    expect( callback ).toHaveBeenLastCalledWith( 1, 0, -3 );
+
+    splide.go( '>' );
+    expect( splide.index ).toBe( 0 );
+    expect( callback ).toHaveBeenLastCalledWith( 0, 1, 4 );
+  } );
+
+  test( 'should not rewind the slider forward beyond the specified index.', () => {
+    const splide = init( { rewind: 'forward', speed: 0 } );
+
+    splide.go( 20 );
+    expect( splide.index ).toBe( splide.length - 1 );
+
+    splide.go( -5 );
+    expect( splide.index ).toBe( 0 );
+  } );
 } );
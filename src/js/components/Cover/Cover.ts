@@ -1,4 +1,11 @@
-import { EVENT_LAZYLOAD_LOADED, EVENT_MOUNTED, EVENT_REFRESH, EVENT_UPDATED } from '../../constants/events';
+import {
+  EVENT_LAZYLOAD_LOADED,
+  EVENT_MOUNTED,
+  EVENT_REFRESH,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_RENDERED,
+  EVENT_UPDATED,
+} from '../../constants/events';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
 import { BaseComponent, Components, Options } from '../../types';
@@ -34,7 +41,7 @@ export function Cover( Splide: Splide, Components: Components, options: Options
   function mount(): void {
     if ( options.cover ) {
       on( EVENT_LAZYLOAD_LOADED, apply( toggle, true ) );
-      on( [ EVENT_MOUNTED, EVENT_UPDATED, EVENT_REFRESH ], apply( cover, true ) );
+      on( [ EVENT_MOUNTED, EVENT_UPDATED, EVENT_REFRESH, EVENT_SLIDES_ADDED, EVENT_SLIDES_RENDERED ], apply( cover, true ) );
     }
   }
 
@@ -0,0 +1,167 @@
+import { EVENT_MOVED } from '../../constants/events';
+import { SLUG_DATA_ATTRIBUTE } from '../../constants/project';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components, Options } from '../../types';
+import { find, getAttribute, pad } from '../../utils';
+import { DEFAULT_DEEPLINK_PARAM } from './constants';
+
+
+/**
+ * The interface for the Deeplink component.
+ *
+ * @since 3.7.0
+ */
+export interface DeeplinkComponent extends BaseComponent {
+}
+
+/**
+ * The component for linking the URL to the active slide.
+ * The URL holds the slug of the slide provided by the `data-splide-slug` attribute, or the ID of the slide.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return A Deeplink component object.
+ */
+export function Deeplink( Splide: Splide, Components: Components, options: Options ): DeeplinkComponent {
+  const { on, bind } = EventInterface( Splide );
+  const { deeplink } = options;
+  const isQuery = deeplink === 'query';
+  const param   = options.deeplinkParam || DEFAULT_DEEPLINK_PARAM;
+
+  /**
+   * Called when the component is constructed.
+   * Lets the Controller start from the slide that the URL refers to, without modifying the `start` option.
+   */
+  function setup(): void {
+    if ( deeplink ) {
+      const control = toControl( read() );
+
+      if ( control ) {
+        Components.Controller.setStart( control );
+      }
+    }
+  }
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    if ( deeplink ) {
+      on( EVENT_MOVED, write );
+      bind( window, isQuery ? 'popstate' : 'popstate hashchange', onChange );
+    }
+  }
+
+  /**
+   * Called when the user navigates the history or changes the hash.
+   */
+  function onChange(): void {
+    const control = toControl( read() );
+
+    if ( control ) {
+      Splide.go( control );
+    }
+  }
+
+  /**
+   * Reads the slide name from the URL.
+   *
+   * @return The slide name if available, or otherwise an empty string.
+   */
+  function read(): string {
+    let value = location.hash.slice( 1 );
+
+    if ( isQuery ) {
+      const pair = find( getPairs(), pair => toKey( pair ) === param );
+      value = pair ? pair.slice( pair.indexOf( '=' ) + 1 ) : '';
+    }
+
+    return decodeURIComponent( value );
+  }
+
+  /**
+   * Writes the name of the active slide to the URL.
+   * Nothing happens if the URL already refers to the slide, for example, after `popstate`.
+   */
+  function write(): void {
+    const Slide = Components.Slides.getAt( Splide.index );
+    const name  = Slide && toName( Slide.slide );
+
+    if ( name && name !== read() ) {
+      const { pathname, search, hash } = location;
+      const value = encodeURIComponent( name );
+      let url = `${ pathname }${ search }#${ value }`;
+
+      if ( isQuery ) {
+        const pairs = getPairs().filter( pair => toKey( pair ) !== param );
+        url = `${ pathname }?${ pairs.concat( `${ encodeURIComponent( param ) }=${ value }` ).join( '&' ) }${ hash }`;
+      }
+
+      history[ options.deeplinkPush ? 'pushState' : 'replaceState' ]( history.state, '', url );
+    }
+  }
+
+  /**
+   * Returns `key=value` pairs in the query string of the current URL.
+   *
+   * @return An array with pairs.
+   */
+  function getPairs(): string[] {
+    return location.search.slice( 1 ).split( '&' ).filter( Boolean );
+  }
+
+  /**
+   * Returns the decoded key of the `key=value` pair.
+   * The parameter name is compared as it is, since it may contain characters such as `[` or `.`.
+   *
+   * @param pair - A pair in the query string.
+   *
+   * @return The decoded key.
+   */
+  function toKey( pair: string ): string {
+    return decodeURIComponent( pair.split( '=' )[ 0 ] );
+  }
+
+  /**
+   * Returns the name of the slide, that is the slug if available, or otherwise the ID.
+   *
+   * @param slide - A slide element.
+   *
+   * @return The name of the slide.
+   */
+  function toName( slide: HTMLElement ): string {
+    return getAttribute( slide, SLUG_DATA_ATTRIBUTE ) || slide.id;
+  }
+
+  /**
+   * Converts the slide name to the control pattern for the Controller.
+   * Slides may not have IDs yet on setup, and then they will be assigned by the Slide component on mount.
+   *
+   * @param name - A slide name.
+   *
+   * @return A control pattern if a slide has the name, or otherwise `undefined`.
+   */
+  function toControl( name: string ): string | undefined {
+    const { slides } = Components.Elements;
+
+    if ( name ) {
+      if ( slides.some( slide => getAttribute( slide, SLUG_DATA_ATTRIBUTE ) === name ) ) {
+        return `slug:${ name }`;
+      }
+
+      if ( slides.some( ( slide, index ) => ( slide.id || `${ Splide.root.id }-slide${ pad( index + 1 ) }` ) === name ) ) {
+        return `#${ name }`;
+      }
+    }
+  }
+
+  return {
+    setup,
+    mount,
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * The default name of the query parameter for the `'query'` deeplink mode.
+ *
+ * @since 3.7.0
+ */
+export const DEFAULT_DEEPLINK_PARAM = 'slide';
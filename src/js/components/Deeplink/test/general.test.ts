@@ -0,0 +1,94 @@
+import { fire, init } from '../../../test';
+import { Options } from '../../../types';
+
+
+describe( 'Deeplink', () => {
+  function setup( options: Options = {} ) {
+    const splide = init( { speed: 0, ...options }, { mount: false } );
+
+    splide.root.querySelectorAll( '.splide__slide' ).forEach( ( slide, index ) => {
+      if ( index % 2 ) {
+        slide.setAttribute( 'data-splide-slug', `slug-${ index }` );
+      }
+    } );
+
+    return splide.mount();
+  }
+
+  beforeEach( () => {
+    history.replaceState( null, '', '/' );
+  } );
+
+  test( 'can write the slug or the ID of the active slide to the hash.', () => {
+    const splide = setup( { deeplink: true } );
+
+    splide.go( 1 );
+    expect( location.hash ).toBe( '#slug-1' );
+
+    splide.go( 2 );
+    expect( location.hash ).toBe( `#${ splide.Components.Slides.getAt( 2 ).slide.id }` );
+  } );
+
+  test( 'can write the name to the query parameter.', () => {
+    history.replaceState( null, '', '/?page=1' );
+
+    const splide = setup( { deeplink: 'query', deeplinkParam: 'item' } );
+
+    splide.go( 3 );
+    expect( location.search ).toBe( '?page=1&item=slug-3' );
+
+    splide.go( 5 );
+    expect( location.search ).toBe( '?page=1&item=slug-5' );
+  } );
+
+  test( 'can read and write the parameter that contains regular expression metacharacters.', () => {
+    history.replaceState( null, '', '/?slide0=slug-1&slide%5B0%5D=slug-3&slide%5B0%5D2=slug-5' );
+
+    const splide = setup( { deeplink: 'query', deeplinkParam: 'slide[0]' } );
+    expect( splide.index ).toBe( 3 );
+
+    splide.go( 7 );
+    expect( location.search ).toBe( '?slide0=slug-1&slide%5B0%5D2=slug-5&slide%5B0%5D=slug-7' );
+
+    history.replaceState( null, '', '/?axb=slug-1&a.b=slug-5' );
+    expect( setup( { deeplink: 'query', deeplinkParam: 'a.b' } ).index ).toBe( 5 );
+  } );
+
+  test( 'can start from the slide that the URL refers to.', () => {
+    history.replaceState( null, '', '/#slug-5' );
+    expect( setup( { deeplink: true } ).index ).toBe( 5 );
+
+    history.replaceState( null, '', '/?slide=slug-7' );
+    expect( setup( { deeplink: 'query' } ).index ).toBe( 7 );
+  } );
+
+  test( 'should not modify the start option.', () => {
+    history.replaceState( null, '', '/#slug-5' );
+
+    const splide = setup( { deeplink: true, start: 2 } );
+
+    expect( splide.index ).toBe( 5 );
+    expect( splide.options.start ).toBe( 2 );
+  } );
+
+  test( 'should ignore the hash that does not refer to any slides.', () => {
+    history.replaceState( null, '', '/#unknown' );
+    expect( setup( { deeplink: true, start: 2 } ).index ).toBe( 2 );
+  } );
+
+  test( 'can move the slider when the hash changes.', () => {
+    const splide = setup( { deeplink: true } );
+
+    history.replaceState( null, '', '/#slug-3' );
+    fire( window, 'hashchange' );
+
+    expect( splide.index ).toBe( 3 );
+  } );
+
+  test( 'should do nothing if the option is disabled.', () => {
+    const splide = setup();
+
+    splide.go( 1 );
+    expect( location.hash ).toBe( '' );
+  } );
+} );
@@ -0,0 +1,101 @@
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components, Options } from '../../types';
+import { isArray, isFunction, isHTMLElement, isObject, isString } from '../../utils';
+import { DEFAULT_DOM_EVENTS, DOM_COMMAND_PREFIX, DOM_EVENT_PREFIX } from './constants';
+
+
+/**
+ * The interface for the DomEvents component.
+ *
+ * @since 3.7.0
+ */
+export interface DomEventsComponent extends BaseComponent {
+}
+
+/**
+ * The component for mirroring internal events as bubbling `CustomEvent`s on the root element,
+ * such as `splide:move`, and accepting DOM commands dispatched to the root, such as `splide:command:go`.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return A DomEvents component object.
+ */
+export function DomEvents( Splide: Splide, Components: Components, options: Options ): DomEventsComponent {
+  const { on, bind } = EventInterface( Splide );
+  const { root } = Splide;
+  const { domEvents } = options;
+
+  /**
+   * DOM commands that the slider accepts, such as `splide:command:go` with the control pattern as `detail`.
+   */
+  const commands: Record<string, ( detail: unknown ) => void> = {
+    go     : detail => { ( isString( detail ) || typeof detail === 'number' ) && Splide.go( detail ) },
+    play   : () => { Components.Autoplay.play() },
+    pause  : () => { Components.Autoplay.pause() },
+    refresh: () => { Splide.refresh() },
+  };
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    if ( domEvents ) {
+      ( isArray<string>( domEvents ) ? domEvents : DEFAULT_DOM_EVENTS ).forEach( event => {
+        on( event, ( ...args: unknown[] ) => { dispatch( event, args ) } );
+      } );
+
+      bind( root, Object.keys( commands ).map( command => `${ DOM_COMMAND_PREFIX }${ command }` ).join( ' ' ), onCommand );
+    }
+  }
+
+  /**
+   * Dispatches the DOM event with serializable arguments as `detail`.
+   *
+   * @param event - An internal event name.
+   * @param args  - Arguments of the event.
+   */
+  function dispatch( event: string, args: unknown[] ): void {
+    root.dispatchEvent( new CustomEvent( `${ DOM_EVENT_PREFIX }${ event }`, {
+      bubbles: true,
+      detail : args.map( serialize ),
+    } ) );
+  }
+
+  /**
+   * Called when the root element receives a DOM command.
+   * Commands for nested sliders are ignored.
+   *
+   * @param e - A CustomEvent object.
+   */
+  function onCommand( e: CustomEvent ): void {
+    if ( e.target === root ) {
+      commands[ e.type.slice( DOM_COMMAND_PREFIX.length ) ]( e.detail );
+    }
+  }
+
+  /**
+   * Converts the argument to the serializable value.
+   * Slide components are converted to their indices, and other objects are replaced with `null`.
+   *
+   * @param arg - An argument to convert.
+   *
+   * @return A serializable value.
+   */
+  function serialize( arg: unknown ): unknown {
+    if ( isObject( arg ) ) {
+      const { index, slide } = arg as { index?: number, slide?: unknown };
+      return isHTMLElement( slide ) ? index : null;
+    }
+
+    return isFunction( arg ) ? null : arg;
+  }
+
+  return {
+    mount,
+  };
+}
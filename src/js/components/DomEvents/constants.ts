@@ -0,0 +1,57 @@
+import {
+  EVENT_ACTIVE,
+  EVENT_AUTOPLAY_PAUSE,
+  EVENT_AUTOPLAY_PLAY,
+  EVENT_DESTROY,
+  EVENT_DRAG,
+  EVENT_DRAGGED,
+  EVENT_FROM_EDGE,
+  EVENT_INACTIVE,
+  EVENT_MOUNTED,
+  EVENT_MOVE,
+  EVENT_MOVED,
+  EVENT_PROGRESS,
+  EVENT_REACH_BEGINNING,
+  EVENT_REACH_END,
+  EVENT_SCROLLED,
+} from '../../constants/events';
+import { PROJECT_CODE } from '../../constants/project';
+
+
+/**
+ * The prefix of names of DOM events dispatched on the root element.
+ *
+ * @since 3.7.0
+ */
+export const DOM_EVENT_PREFIX = `${ PROJECT_CODE }:`;
+
+/**
+ * The prefix of names of DOM commands accepted by the root element.
+ * This must differ from `DOM_EVENT_PREFIX`, or mirrored events would be taken as commands.
+ *
+ * @since 3.7.0
+ */
+export const DOM_COMMAND_PREFIX = `${ PROJECT_CODE }:command:`;
+
+/**
+ * Events to mirror as DOM events when the `domEvents` option is `true`.
+ *
+ * @since 3.7.0
+ */
+export const DEFAULT_DOM_EVENTS = [
+  EVENT_MOUNTED,
+  EVENT_MOVE,
+  EVENT_MOVED,
+  EVENT_ACTIVE,
+  EVENT_INACTIVE,
+  EVENT_DRAG,
+  EVENT_DRAGGED,
+  EVENT_SCROLLED,
+  EVENT_AUTOPLAY_PLAY,
+  EVENT_AUTOPLAY_PAUSE,
+  EVENT_REACH_BEGINNING,
+  EVENT_REACH_END,
+  EVENT_FROM_EDGE,
+  EVENT_PROGRESS,
+  EVENT_DESTROY,
+];
@@ -0,0 +1,86 @@
+import { fire, init } from '../../../test';
+
+
+describe( 'DomEvents', () => {
+  test( 'can dispatch bubbling DOM events with serializable arguments.', () => {
+    const splide   = init( { speed: 0, domEvents: true } );
+    const callback = jest.fn();
+    const actives: number[] = [];
+
+    document.body.addEventListener( 'splide:moved', callback );
+    splide.root.addEventListener( 'splide:active', ( e: CustomEvent ) => { actives.push( e.detail[ 0 ] ) } );
+
+    splide.go( 2 );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( callback.mock.calls[ 0 ][ 0 ].detail ).toEqual( [ 2, 0, 2 ] );
+    expect( actives ).toEqual( [ 2 ] );
+
+    document.body.removeEventListener( 'splide:moved', callback );
+  } );
+
+  test( 'can mirror only specified events.', () => {
+    const splide = init( { speed: 0, domEvents: [ 'move' ] } );
+    const move   = jest.fn();
+    const moved  = jest.fn();
+
+    splide.root.addEventListener( 'splide:move', move );
+    splide.root.addEventListener( 'splide:moved', moved );
+    splide.go( 1 );
+
+    expect( move ).toHaveBeenCalledTimes( 1 );
+    expect( moved ).not.toHaveBeenCalled();
+  } );
+
+  test( 'can accept DOM commands.', () => {
+    const splide = init( { speed: 0, autoplay: true, domEvents: true } );
+
+    fire( splide.root, 'splide:command:go', { detail: '>' } );
+    expect( splide.index ).toBe( 1 );
+
+    fire( splide.root, 'splide:command:pause' );
+    expect( splide.Components.Autoplay.isPaused() ).toBe( true );
+
+    fire( splide.root, 'splide:command:play' );
+    expect( splide.Components.Autoplay.isPaused() ).toBe( false );
+  } );
+
+  test( 'should not take mirrored events as commands.', () => {
+    const splide   = init( { speed: 0, domEvents: [ 'refresh', 'move' ] } );
+    const refresh  = jest.fn();
+    const callback = jest.fn();
+
+    splide.on( 'refresh', refresh );
+    splide.root.addEventListener( 'splide:refresh', callback );
+
+    splide.refresh();
+
+    expect( refresh ).toHaveBeenCalledTimes( 1 );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+
+    splide.go( 1 );
+    expect( splide.index ).toBe( 1 );
+
+    fire( splide.root, 'splide:command:refresh' );
+    expect( refresh ).toHaveBeenCalledTimes( 2 );
+  } );
+
+  test( 'should ignore the go command with an invalid control.', () => {
+    const splide = init( { speed: 0, domEvents: true } );
+
+    fire( splide.root, 'splide:command:go', { detail: { index: 2 } } );
+    expect( splide.index ).toBe( 0 );
+  } );
+
+  test( 'should do nothing if the option is disabled.', () => {
+    const splide   = init( { speed: 0 } );
+    const callback = jest.fn();
+
+    splide.root.addEventListener( 'splide:move', callback );
+    splide.go( 1 );
+    fire( splide.root, 'splide:command:go', { detail: 3 } );
+
+    expect( callback ).not.toHaveBeenCalled();
+    expect( splide.index ).toBe( 1 );
+  } );
+} );
@@ -1,12 +1,33 @@
 import { EVENT_DRAG, EVENT_DRAGGED, EVENT_DRAGGING, EVENT_MOUNTED, EVENT_UPDATED } from '../../constants/events';
+import { CLASS_REORDERING } from '../../constants/classes';
 import { SCROLL_LISTENER_OPTIONS } from '../../constants/listener-options';
 import { DRAGGING, IDLE, MOVING } from '../../constants/states';
 import { FADE, LOOP, SLIDE } from '../../constants/types';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
 import { BaseComponent, Components, Options } from '../../types';
-import { abs, isObject, matches, min, noop, prevent, sign } from '../../utils';
-import { FRICTION, LOG_INTERVAL, POINTER_DOWN_EVENTS, POINTER_MOVE_EVENTS, POINTER_UP_EVENTS } from './constants';
+import {
+  abs,
+  addClass,
+  between,
+  find,
+  isObject,
+  matches,
+  min,
+  noop,
+  prevent,
+  rect,
+  removeClass,
+  sign,
+} from '../../utils';
+import {
+  FRICTION,
+  LOG_INTERVAL,
+  POINTER_DOWN_EVENTS,
+  POINTER_MOVE_EVENTS,
+  POINTER_UP_EVENTS,
+  REORDER_DELAY,
+} from './constants';
 
 
 /**
@@ -34,7 +55,7 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
   const { on, emit, bind, unbind } = EventInterface( Splide );
   const { state } = Splide;
   const { Move, Scroll, Controller } = Components;
-  const { track } = Components.Elements;
+  const { track, slides } = Components.Elements;
   const { resolve, orient } = Components.Direction;
   const { getPosition, exceededLimit } = Move;
 
@@ -84,6 +105,16 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
    */
   let target: Window | HTMLElement;
 
+  /**
+   * The timer ID for the long press to start reordering slides.
+   */
+  let reorderTimer: ReturnType<typeof setTimeout>;
+
+  /**
+   * The slide element that the user is reordering.
+   */
+  let reordering: HTMLElement;
+
   /**
    * Called when the component is mounted.
    */
@@ -96,6 +127,14 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
     on( [ EVENT_MOUNTED, EVENT_UPDATED ], init );
   }
 
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    clearTimeout( reorderTimer );
+    endReorder();
+  }
+
   /**
    * Initializes the component.
    */
@@ -132,6 +171,10 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
           Move.cancel();
           Scroll.cancel();
           save( e );
+
+          if ( options.reorder && ! Components.Virtual.isEnabled() ) {
+            waitReorder( e );
+          }
         } else {
           prevent( e, true );
         }
@@ -145,6 +188,15 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
    * @param e - A TouchEvent or MouseEvent object
    */
   function onPointerMove( e: TouchEvent | MouseEvent ): void {
+    if ( reordering ) {
+      reorder( e );
+      return prevent( e );
+    }
+
+    if ( ! dragging && shouldStart( e ) ) {
+      clearTimeout( reorderTimer );
+    }
+
     if ( ! state.is( DRAGGING ) ) {
       state.set( DRAGGING );
       emit( EVENT_DRAG );
@@ -180,12 +232,18 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
    * @param e - A TouchEvent or MouseEvent object
    */
   function onPointerUp( e: TouchEvent | MouseEvent ): void {
+    clearTimeout( reorderTimer );
+
     if ( state.is( DRAGGING ) ) {
       state.set( IDLE );
       emit( EVENT_DRAGGED );
     }
 
-    if ( dragging ) {
+    if ( reordering ) {
+      endReorder();
+      clickPrevented = true;
+      prevent( e );
+    } else if ( dragging ) {
       move( e );
       prevent( e );
     }
@@ -207,6 +265,54 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
     }
   }
 
+  /**
+   * Starts the timer to reorder the pressed slide.
+   * Clones can not be reordered.
+   *
+   * @param e - A TouchEvent or MouseEvent object.
+   */
+  function waitReorder( e: TouchEvent | MouseEvent ): void {
+    const slide = find( slides, slide => slide.contains( e.target as Node ) );
+
+    clearTimeout( reorderTimer );
+
+    if ( slide ) {
+      reorderTimer = setTimeout( () => {
+        if ( ! dragging ) {
+          reordering = slide;
+          addClass( slide, CLASS_REORDERING );
+        }
+      }, options.reorderDelay || REORDER_DELAY );
+    }
+  }
+
+  /**
+   * Moves the slide being reordered to the position of the slide under the pointer.
+   *
+   * @param e - A TouchEvent or MouseEvent object.
+   */
+  function reorder( e: TouchEvent | MouseEvent ): void {
+    const coord = coordOf( e, false, true );
+    const over  = find( slides, slide => {
+      const slideRect = rect( slide );
+      return between( coord, slideRect[ resolve( 'left' ) ], slideRect[ resolve( 'right' ) ] );
+    } );
+
+    if ( over && over !== reordering ) {
+      Components.Slides.move( slides.indexOf( reordering ), slides.indexOf( over ) );
+    }
+  }
+
+  /**
+   * Ends reordering slides.
+   */
+  function endReorder(): void {
+    if ( reordering ) {
+      removeClass( reordering, CLASS_REORDERING );
+      reordering = null;
+    }
+  }
+
   /**
    * Saves data at the specific moment.
    *
@@ -339,11 +445,13 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
    *
    * @param e          - A TouchEvent or MouseEvent object.
    * @param orthogonal - Optional. If `true`, returns the coord of the orthogonal axis against the drag one.
+   * @param client     - Optional. If `true`, returns the `clientX` or `clientY` coordinate instead.
    *
    * @return A pageX or pageY coordinate.
    */
-  function coordOf( e: TouchEvent | MouseEvent, orthogonal?: boolean ): number {
-    return ( isTouchEvent( e ) ? e.changedTouches[ 0 ] : e )[ `page${ resolve( orthogonal ? 'Y' : 'X' ) }` ];
+  function coordOf( e: TouchEvent | MouseEvent, orthogonal?: boolean, client?: boolean ): number {
+    const axis = resolve( orthogonal ? 'Y' : 'X' );
+    return ( isTouchEvent( e ) ? e.changedTouches[ 0 ] : e )[ client ? `client${ axis }` : `page${ axis }` ];
   }
 
   /**
@@ -389,6 +497,7 @@ export function Drag( Splide: Splide, Components: Components, options: Options )
 
   return {
     mount,
+    destroy,
     disable,
     isDragging,
   };
@@ -12,6 +12,13 @@ export const FRICTION = 5;
  */
 export const LOG_INTERVAL = 200;
 
+/**
+ * The default duration of the press to start reordering slides.
+ *
+ * @since 3.7.0
+ */
+export const REORDER_DELAY = 500;
+
 /**
  * Start events for dragging.
  *
@@ -0,0 +1,57 @@
+import { CLASS_REORDERING } from '../../../constants/classes';
+import { fire, init, wait } from '../../../test';
+import { SLIDER_WIDTH } from '../../../test/fixtures/constants';
+
+
+describe( 'Drag#reorder', () => {
+  test( 'can reorder slides by a long press.', async () => {
+    const splide = init( { speed: 0, reorder: true, reorderDelay: 10 } );
+    const { slides } = splide.Components.Elements;
+    const slide0 = slides[ 0 ];
+
+    fireWithCoord( slide0, 'mousedown', { x: 10 } );
+    await wait( 50 );
+
+    expect( slide0.classList.contains( CLASS_REORDERING ) ).toBe( true );
+
+    fireWithCoord( window, 'mousemove', { x: SLIDER_WIDTH * 2 + 10 } );
+
+    expect( slides[ 2 ] ).toBe( slide0 );
+    expect( splide.Components.Drag.isDragging() ).toBe( false );
+
+    fireWithCoord( window, 'mouseup', { x: SLIDER_WIDTH * 2 + 10 } );
+
+    expect( slide0.classList.contains( CLASS_REORDERING ) ).toBe( false );
+    expect( splide.index ).toBe( 2 );
+  } );
+
+  test( 'should drag the slider if the pointer moves before the delay.', async () => {
+    const splide = init( { speed: 0, reorder: true, reorderDelay: 10 } );
+    const { slides } = splide.Components.Elements;
+    const slide0 = slides[ 0 ];
+
+    fireWithCoord( slide0, 'mousedown', { x: 0, timeStamp: 1 } );
+    fireWithCoord( window, 'mousemove', { x: -1, timeStamp: 1 } );
+    fireWithCoord( window, 'mousemove', { x: -100, timeStamp: 2 } );
+    await wait( 50 );
+
+    expect( slide0.classList.contains( CLASS_REORDERING ) ).toBe( false );
+    expect( splide.Components.Move.getPosition() ).toBe( -100 );
+    expect( slides[ 0 ] ).toBe( slide0 );
+  } );
+
+  test( 'should not reorder slides if the option is disabled.', async () => {
+    const splide = init( { speed: 0, reorderDelay: 10 } );
+    const slide0 = splide.Components.Elements.slides[ 0 ];
+
+    fireWithCoord( slide0, 'mousedown', { x: 10 } );
+    await wait( 50 );
+
+    expect( slide0.classList.contains( CLASS_REORDERING ) ).toBe( false );
+  } );
+} );
+
+function fireWithCoord( elm: Element | Window, event: string, data: any = {} ): void {
+  const { x = 0, y = 0 } = data;
+  fire( elm, event, { ...data, pageX: x, pageY: y, clientX: x, clientY: y }, { cancelable: true, bubbles: true } );
+}
@@ -6,7 +6,9 @@ import {
   CLASS_ARROWS,
   CLASS_AUTOPLAY,
   CLASS_CLONE,
+  CLASS_FILTERED,
   CLASS_LIST,
+  CLASS_PLACEHOLDER,
   CLASS_PAUSE,
   CLASS_PLAY,
   CLASS_PROGRESS,
@@ -154,7 +156,8 @@ export function Elements( Splide: Splide, Components: Components, options: Optio
 
     assert( track && list, 'A track/list element is missing.' );
 
-    push( slides, children( list, `.${ CLASS_SLIDE }:not(.${ CLASS_CLONE })` ) );
+    const selector = `.${ CLASS_SLIDE }:not(.${ CLASS_CLONE }):not(.${ CLASS_FILTERED }):not(.${ CLASS_PLACEHOLDER })`;
+    push( slides, children( list, selector ) );
 
     const autoplay = find( `.${ CLASS_AUTOPLAY }` );
     const arrows   = find( `.${ CLASS_ARROWS }` );
@@ -1,9 +1,17 @@
 import { TTB } from '../../constants/directions';
-import { EVENT_REFRESH, EVENT_RESIZE, EVENT_RESIZED, EVENT_UPDATED } from '../../constants/events';
+import {
+  EVENT_REFRESH,
+  EVENT_RESIZE,
+  EVENT_RESIZED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_RENDERED,
+  EVENT_UPDATED,
+} from '../../constants/events';
 import { EventInterface, Throttle } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
 import { BaseComponent, Components, Options } from '../../types';
-import { abs, assert, isObject, rect, style, unit } from '../../utils';
+import { SlideComponent } from '../Slides/Slide';
+import { abs, assert, floor, isObject, rect, style, unit } from '../../utils';
 
 
 /**
@@ -33,7 +41,7 @@ export interface LayoutComponent extends BaseComponent {
 export function Layout( Splide: Splide, Components: Components, options: Options ): LayoutComponent {
   const { on, bind, emit } = EventInterface( Splide );
   const { Slides } = Components;
-  const { resolve } = Components.Direction;
+  const { resolve, orient } = Components.Direction;
   const { root, track, list } = Components.Elements;
   const { getAt } = Slides;
 
@@ -55,6 +63,7 @@ export function Layout( Splide: Splide, Components: Components, options: Options
     bind( window, 'resize load', Throttle( emit.bind( this, EVENT_RESIZE ) ) );
     on( [ EVENT_UPDATED, EVENT_REFRESH ], init );
     on( EVENT_RESIZE, resize );
+    on( [ EVENT_SLIDES_ADDED, EVENT_SLIDES_RENDERED ], layout );
   }
 
   /**
@@ -90,6 +99,19 @@ export function Layout( Splide: Splide, Components: Components, options: Options
     }
   }
 
+  /**
+   * Applies sizes to slides added after the last resize.
+   *
+   * @param Added - An array with added Slide objects.
+   */
+  function layout( Added: SlideComponent[] ): void {
+    Added.forEach( Slide => {
+      Slide.style( resolve( 'marginRight' ), unit( options.gap ) );
+      Slide.style( 'width', cssSlideWidth() || null );
+      Slide.style( 'height', cssSlideHeight() || null, true );
+    } );
+  }
+
   /**
    * Updates the height of slides or their container elements if available.
    */
@@ -184,7 +206,7 @@ export function Layout( Splide: Splide, Components: Components, options: Options
    * @return The size of the specified slide element in pixel.
    */
   function slideSize( index?: number, withoutGap?: boolean ): number {
-    const Slide = getAt( index || 0 );
+    const Slide = find( index || 0 );
     return Slide
       ? rect( Slide.slide )[ resolve( 'width' ) ] + ( withoutGap ? 0 : getGap() )
       : 0;
@@ -193,6 +215,8 @@ export function Layout( Splide: Splide, Components: Components, options: Options
   /**
    * Returns the total width or height of slides from the head of the slider to the specified index.
    * This includes sizes of clones before the first slide.
+   * In the virtual mode, the size is computed from the size of a rendered slide.
+   * When the slider loops without clones, indices out of the range are converted by cycles of slides.
    *
    * @param index      - A slide index. If omitted, uses the last index.
    * @param withoutGap - Optional. Determines whether to exclude the last gap or not.
@@ -200,12 +224,26 @@ export function Layout( Splide: Splide, Components: Components, options: Options
    * @return The total width of slides in the horizontal slider, or the height in the vertical one.
    */
   function totalSize( index: number, withoutGap?: boolean ): number {
+    if ( Components.Virtual.isEnabled() ) {
+      return index < 0 ? 0 : ( index + 1 ) * slideSize() - ( withoutGap ? getGap() : 0 );
+    }
+
+    const { Rearrange } = Components;
+
+    if ( Rearrange.isEnabled() && Splide.length ) {
+      const cycle = floor( index / Splide.length );
+
+      if ( cycle ) {
+        return totalSize( index - cycle * Splide.length, withoutGap ) + cycle * Rearrange.period();
+      }
+    }
+
     const Slide = getAt( index );
 
     if ( Slide ) {
       const right = rect( Slide.slide )[ resolve( 'right' ) ];
       const left  = rect( list )[ resolve( 'left' ) ];
-      return abs( right - left ) + ( withoutGap ? 0 : getGap() );
+      return abs( right - left + orient( Rearrange.shiftOf( index ) ) ) + ( withoutGap ? 0 : getGap() );
     }
 
     return 0;
@@ -213,11 +251,33 @@ export function Layout( Splide: Splide, Components: Components, options: Options
 
   /**
    * Returns the slider size without clones before the first slide.
+   * The placeholder slide of the Source component is included while more slides are available.
    *
    * @return The width or height of the slider without clones.
    */
   function sliderSize(): number {
-    return totalSize( Splide.length - 1, true ) - totalSize( -1, true );
+    const last = Splide.length - ( Components.Source.hasMore() ? 0 : 1 );
+    return totalSize( last, true ) - totalSize( -1, true );
+  }
+
+  /**
+   * Returns the Slide object at the index.
+   * In the virtual mode, any rendered slide is returned if the slide is not rendered,
+   * since all slides are assumed to have the same size.
+   * When the slider loops without clones, the index out of the range is converted into the range.
+   *
+   * @param index - A slide index.
+   *
+   * @return A Slide object if available, or otherwise `undefined`.
+   */
+  function find( index: number ): SlideComponent | undefined {
+    const { length } = Splide;
+
+    if ( Components.Rearrange.isEnabled() && length ) {
+      index -= floor( index / length ) * length;
+    }
+
+    return getAt( index ) || ( Components.Virtual.isEnabled() ? Slides.get( true )[ 0 ] : undefined );
   }
 
   /**
@@ -226,7 +286,7 @@ export function Layout( Splide: Splide, Components: Components, options: Options
    * @return The gap value in pixel.
    */
   function getGap(): number {
-    const Slide = getAt( 0 );
+    const Slide = find( 0 );
     return Slide && parseFloat( style( Slide.slide, resolve( 'marginRight' ) ) ) || 0;
   }
 
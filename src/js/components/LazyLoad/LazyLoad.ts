@@ -7,6 +7,10 @@ import {
   EVENT_REFRESH,
   EVENT_RESIZE,
   EVENT_SCROLLED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_SLIDES_RENDERED,
 } from '../../constants/events';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
@@ -17,6 +21,7 @@ import {
   create,
   display,
   getAttribute,
+  includes,
   queryAll,
   remove,
   removeAttribute,
@@ -73,6 +78,11 @@ export function LazyLoad( Splide: Splide, Components: Components, options: Optio
    */
   let index = 0;
 
+  /**
+   * Indicates whether an image is being loaded in the sequential mode or not.
+   */
+  let loading: boolean;
+
   /**
    * Called when the component is mounted.
    */
@@ -81,6 +91,7 @@ export function LazyLoad( Splide: Splide, Components: Components, options: Optio
       init();
       on( EVENT_REFRESH, destroy );
       on( EVENT_REFRESH, init );
+      on( [ EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED, EVENT_SLIDES_MOVED, EVENT_SLIDES_RENDERED ], sync );
 
       if ( ! isSequential ) {
         on( [ EVENT_MOUNTED, EVENT_REFRESH, EVENT_MOVED, EVENT_SCROLLED ], observe );
@@ -92,28 +103,57 @@ export function LazyLoad( Splide: Splide, Components: Components, options: Optio
    * Finds images that contain specific data attributes.
    */
   function init() {
-    Components.Slides.forEach( _Slide => {
-      queryAll<HTMLImageElement>( _Slide.slide, IMAGE_SELECTOR ).forEach( _img => {
-        const src    = getAttribute( _img, SRC_DATA_ATTRIBUTE );
-        const srcset = getAttribute( _img, SRCSET_DATA_ATTRIBUTE );
-
-        if ( src !== _img.src || srcset !== _img.srcset ) {
-          const className = options.classes.spinner;
-          const parent    = _img.parentElement;
-          const _spinner  = child( parent, `.${ className }` ) || create( 'span', className, parent );
-
-          setAttribute( _spinner, ROLE, 'presentation' );
-          images.push( { _img, _Slide, src, srcset, _spinner } );
-          ! _img.src && display( _img, 'none' );
-        }
-      } );
-    } );
+    Components.Slides.forEach( collect );
 
     if ( isSequential ) {
       loadNext();
     }
   }
 
+  /**
+   * Finds images in the slide that have not been collected yet.
+   *
+   * @param _Slide - A Slide object.
+   */
+  function collect( _Slide: SlideComponent ): void {
+    queryAll<HTMLImageElement>( _Slide.slide, IMAGE_SELECTOR ).forEach( _img => {
+      const src    = getAttribute( _img, SRC_DATA_ATTRIBUTE );
+      const srcset = getAttribute( _img, SRCSET_DATA_ATTRIBUTE );
+
+      if ( ( src !== _img.src || srcset !== _img.srcset ) && ! images.some( data => data._img === _img ) ) {
+        const className = options.classes.spinner;
+        const parent    = _img.parentElement;
+        const _spinner  = child( parent, `.${ className }` ) || create( 'span', className, parent );
+
+        setAttribute( _spinner, ROLE, 'presentation' );
+        images.push( { _img, _Slide, src, srcset, _spinner } );
+        ! _img.src && display( _img, 'none' );
+      }
+    } );
+  }
+
+  /**
+   * Called when slides are added or removed.
+   * Discards images in removed slides and collects images in new slides, including regenerated clones,
+   * without resetting the state of other images.
+   */
+  function sync(): void {
+    const Slides = Components.Slides.get();
+    const keep   = ( data: LazyLoadImagesData ) => includes( Slides, data._Slide );
+
+    index  = images.slice( 0, index ).filter( keep ).length;
+    images = images.filter( keep );
+    Slides.forEach( collect );
+
+    if ( isSequential ) {
+      loading || loadNext();
+    } else {
+      off( EVENT_MOVED );
+      on( EVENT_MOVED, observe );
+      observe();
+    }
+  }
+
   /**
    * Destroys the component.
    */
@@ -188,7 +228,9 @@ export function LazyLoad( Splide: Splide, Components: Components, options: Optio
    * Starts loading a next image.
    */
   function loadNext(): void {
-    if ( index < images.length ) {
+    loading = index < images.length;
+
+    if ( loading ) {
       load( images[ index++ ] );
     }
   }
@@ -135,6 +135,23 @@ describe( 'LazyLoad in the `nearby` mode', () => {
     expect( last2.slide.querySelector( 'img' ).src ).toBe( '' );
   } );
 
+  test( 'can collect images in added slides without resetting other images.', () => {
+    const splide = init( { lazyLoad: true, speed: 0 }, { src: false, dataSrc: true } );
+    const images = document.getElementsByTagName( 'img' );
+
+    splide.add( `<li class="splide__slide"><img ${ SRC_DATA_ATTRIBUTE }="${ URL }/new.jpg"></li>`, 1 );
+
+    const added = splide.Components.Slides.getAt( 1 ).slide.querySelector( 'img' );
+
+    expect( added.src ).toBe( `${ URL }/new.jpg` );
+    expect( images[ 0 ].src ).toBe( `${ URL }/0.jpg` );
+    expect( images[ 4 ].src ).toBe( '' );
+
+    splide.go( 3 );
+
+    expect( images[ 4 ].src ).toBe( `${ URL }/3.jpg` );
+  } );
+
   test( 'should not start loading an image if the slide is not close to the current location.', () => {
     init( { lazyLoad: true }, { src: false, dataSrc: true } );
     const images = document.getElementsByTagName( 'img' );
@@ -6,14 +6,17 @@ import {
   EVENT_REPOSITIONED,
   EVENT_RESIZED,
   EVENT_SHIFTED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
   EVENT_UPDATED,
 } from '../../constants/events';
 import { IDLE, MOVING } from '../../constants/states';
 import { FADE, LOOP, SLIDE } from '../../constants/types';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
-import { AnyFunction, BaseComponent, Components, Options, TransitionComponent } from '../../types';
-import { abs, ceil, clamp, isUndefined, rect, removeAttribute } from '../../utils';
+import { AnyFunction, BaseComponent, Components, NavigationOptions, Options, TransitionComponent } from '../../types';
+import { abs, ceil, clamp, isUndefined, rect, removeAttribute, round } from '../../utils';
 
 
 /**
@@ -22,7 +25,7 @@ import { abs, ceil, clamp, isUndefined, rect, removeAttribute } from '../../util
  * @since 3.0.0
  */
 export interface MoveComponent extends BaseComponent {
-  move( dest: number, index: number, prev: number, callback?: AnyFunction ): void;
+  move( dest: number, index: number, prev: number, callback?: AnyFunction, navigation?: NavigationOptions ): void;
   jump( index: number ): void;
   translate( position: number, preventLoop?: boolean ): void;
   shift( position: number, backwards: boolean ): number;
@@ -62,7 +65,15 @@ export function Move( Splide: Splide, Components: Components, options: Options )
    */
   function mount(): void {
     Transition = Components.Transition;
-    on( [ EVENT_MOUNTED, EVENT_RESIZED, EVENT_UPDATED, EVENT_REFRESH ], reposition );
+    on( [
+      EVENT_MOUNTED,
+      EVENT_RESIZED,
+      EVENT_UPDATED,
+      EVENT_REFRESH,
+      EVENT_SLIDES_ADDED,
+      EVENT_SLIDES_REMOVED,
+      EVENT_SLIDES_MOVED,
+    ], reposition );
   }
 
   /**
@@ -88,20 +99,30 @@ export function Move( Splide: Splide, Components: Components, options: Options )
 
   /**
    * Moves the slider to the dest index with the Transition component.
+   * If the dest index is out of the range, the list is shifted before the transition, as if it loops.
    *
-   * @param dest     - A destination index to go to, including clones'.
-   * @param index    - A slide index.
-   * @param prev     - A previous index.
-   * @param callback - Optional. A callback function invoked after transition ends.
+   * @param dest       - A destination index to go to, including clones'.
+   * @param index      - A slide index.
+   * @param prev       - A previous index.
+   * @param callback   - Optional. A callback function invoked after transition ends.
+   * @param navigation - Optional. Options that override the transition of this move.
    */
-  function move( dest: number, index: number, prev: number, callback?: AnyFunction ): void {
+  function move(
+    dest: number,
+    index: number,
+    prev: number,
+    callback?: AnyFunction,
+    navigation?: NavigationOptions
+  ): void {
     if ( ! isBusy() ) {
       const { set } = Splide.state;
       const position = getPosition();
 
       if ( dest !== index ) {
+        const shifted = shift( position, dest > index );
         Transition.cancel();
-        translate( shift( position, dest > index ), true );
+        Splide.is( SLIDE ) && Components.Clones.bridge( shifted - position );
+        translate( shifted, true );
       }
 
       set( MOVING );
@@ -112,11 +133,11 @@ export function Move( Splide: Splide, Components: Components, options: Options )
         emit( EVENT_MOVED, index, prev, dest );
 
         if ( options.trimSpace === 'move' && dest !== prev && position === getPosition() ) {
-          Components.Controller.go( dest > prev ? '>' : '<', false, callback );
+          Components.Controller.go( dest > prev ? '>' : '<', false, callback, navigation );
         } else {
           callback && callback();
         }
-      } );
+      }, navigation );
     }
   }
 
@@ -131,6 +152,7 @@ export function Move( Splide: Splide, Components: Components, options: Options )
 
   /**
    * Moves the slider to the provided position.
+   * When the slider loops without clones, slides are rearranged to cover the way from the current position.
    *
    * @param position    - The position to move to.
    * @param preventLoop - Optional. If `true`, sets the provided position as is.
@@ -138,6 +160,7 @@ export function Move( Splide: Splide, Components: Components, options: Options )
   function translate( position: number, preventLoop?: boolean ): void {
     if ( ! Splide.is( FADE ) ) {
       const destination = preventLoop ? position : loop( position );
+      Components.Rearrange.update( destination, getPosition() + destination - position );
       list.style.transform = `translate${ resolve( 'X' ) }(${ destination }px)`;
       position !== destination && emit( EVENT_SHIFTED );
     }
@@ -164,6 +187,7 @@ export function Move( Splide: Splide, Components: Components, options: Options )
 
   /**
    * Adds or subtracts the slider width to the provided position.
+   * For the slide slider that rewinds forward, the width includes the last gap as the loop slider does.
    *
    * @param position  - A position to shift.
    * @param backwards - Determines whether to shift the slider backwards or forwards.
@@ -172,7 +196,7 @@ export function Move( Splide: Splide, Components: Components, options: Options )
    */
   function shift( position: number, backwards: boolean ): number {
     const excess = position - getLimit( backwards );
-    const size   = sliderSize();
+    const size   = sliderSize() + ( Splide.is( LOOP ) ? 0 : slideSize( 0 ) - slideSize( 0, true ) );
     position -= orient( size * ( ceil( abs( excess ) / size ) || 1 ) ) * ( backwards ? 1 : -1 );
     return position;
   }
@@ -187,12 +211,18 @@ export function Move( Splide: Splide, Components: Components, options: Options )
 
   /**
    * Returns the closest index to the position.
+   * In the virtual mode, the index is computed from the size of a rendered slide instead of iterating over slides.
    *
    * @param position - A position to convert.
    *
    * @return The closest index to the position.
    */
   function toIndex( position: number ): number {
+    if ( Components.Virtual.isEnabled() ) {
+      const size = slideSize( 0 );
+      return size ? clamp( round( ( orient( position ) + offset( 0 ) ) / size ), 0, Splide.length - 1 ) : 0;
+    }
+
     const Slides = Components.Slides.get();
 
     let index       = 0;
@@ -0,0 +1,126 @@
+import { CLASS_CLONE, CLASS_PLACEHOLDER, CLASS_SLIDE } from '../../constants/classes';
+import {
+  EVENT_REFRESH,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_SLIDES_RENDERED,
+} from '../../constants/events';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components, Options } from '../../types';
+import { hasClass, isHTMLElement, slice } from '../../utils';
+
+
+/**
+ * The interface for the Observer component.
+ *
+ * @since 3.7.0
+ */
+export interface ObserverComponent extends BaseComponent {
+}
+
+/**
+ * The component for refreshing the slider when slides are directly added to or removed from the list element.
+ * Mutations are batched into one refresh per frame, and clones inserted by the Clones component are ignored.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return An Observer component object.
+ */
+export function Observer( Splide: Splide, Components: Components, options: Options ): ObserverComponent {
+  const { on } = EventInterface( Splide );
+  const { list } = Components.Elements;
+
+  /**
+   * The MutationObserver instance.
+   */
+  let observer: MutationObserver;
+
+  /**
+   * The ID of the requested animation frame.
+   */
+  let id: number;
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    if ( options.observe ) {
+      observer = new MutationObserver( onMutation );
+      observer.observe( list, { childList: true } );
+      on( [
+        EVENT_REFRESH,
+        EVENT_SLIDES_ADDED,
+        EVENT_SLIDES_REMOVED,
+        EVENT_SLIDES_MOVED,
+        EVENT_SLIDES_RENDERED,
+      ], discard );
+    }
+  }
+
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    if ( observer ) {
+      observer.disconnect();
+      observer = null;
+    }
+
+    discard();
+  }
+
+  /**
+   * Called when children of the list element change.
+   * Requests the refresh if any slide that is not a clone is added or removed.
+   *
+   * @param records - An array with MutationRecord objects.
+   */
+  function onMutation( records: MutationRecord[] ): void {
+    if ( records.some( record => slice( record.addedNodes ).concat( slice( record.removedNodes ) ).some( isSlide ) ) ) {
+      id = id || requestAnimationFrame( refresh );
+    }
+  }
+
+  /**
+   * Refreshes the slider.
+   */
+  function refresh(): void {
+    id = 0;
+    Splide.refresh();
+  }
+
+  /**
+   * Discards pending mutations and the requested refresh,
+   * since the refresh collects slides again anyway.
+   */
+  function discard(): void {
+    observer && observer.takeRecords();
+    cancelAnimationFrame( id );
+    id = 0;
+  }
+
+  /**
+   * Checks if the node is a slide element that is neither a clone nor a placeholder.
+   *
+   * @param node - A node to check.
+   *
+   * @return `true` if the node is a slide, or otherwise `false`.
+   */
+  function isSlide( node: Node ): boolean {
+    return isHTMLElement( node )
+      && hasClass( node, CLASS_SLIDE )
+      && ! hasClass( node, CLASS_CLONE )
+      && ! hasClass( node, CLASS_PLACEHOLDER );
+  }
+
+  return {
+    mount,
+    destroy,
+  };
+}
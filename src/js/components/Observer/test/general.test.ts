@@ -0,0 +1,60 @@
+import { EVENT_REFRESH } from '../../../constants/events';
+import { init, wait } from '../../../test';
+
+
+describe( 'Observer', () => {
+  test( 'can refresh the slider when slides are directly added or removed.', async () => {
+    const splide = init( { observe: true } );
+    const { list } = splide.Components.Elements;
+
+    list.insertAdjacentHTML( 'beforeend', '<li class="splide__slide">11</li>' );
+    await wait( 100 );
+
+    expect( splide.length ).toBe( 11 );
+    expect( splide.Components.Slides.getAt( 10 ).slide.textContent ).toBe( '11' );
+
+    list.removeChild( list.firstElementChild );
+    await wait( 100 );
+
+    expect( splide.length ).toBe( 10 );
+  } );
+
+  test( 'should batch mutations into one refresh.', async () => {
+    const splide   = init( { observe: true } );
+    const { list } = splide.Components.Elements;
+    const callback = jest.fn();
+
+    splide.on( EVENT_REFRESH, callback );
+
+    list.insertAdjacentHTML( 'beforeend', '<li class="splide__slide">11</li>' );
+    list.insertAdjacentHTML( 'beforeend', '<li class="splide__slide">12</li>' );
+    list.removeChild( list.firstElementChild );
+
+    await wait( 100 );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( splide.length ).toBe( 11 );
+  } );
+
+  test( 'should ignore clones and slides added by the API.', async () => {
+    const splide   = init( { type: 'loop', observe: true } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_REFRESH, callback );
+    splide.add( '<li class="splide__slide">11</li>' );
+
+    await wait( 100 );
+
+    expect( callback ).not.toHaveBeenCalled();
+    expect( splide.length ).toBe( 11 );
+  } );
+
+  test( 'should not observe the list if the option is disabled.', async () => {
+    const splide = init();
+
+    splide.Components.Elements.list.insertAdjacentHTML( 'beforeend', '<li class="splide__slide">11</li>' );
+    await wait( 100 );
+
+    expect( splide.length ).toBe( 10 );
+  } );
+} );
@@ -11,6 +11,7 @@ import { find, merge } from '../../utils';
  * @since 3.0.0
  */
 export interface OptionsComponent extends BaseComponent {
+  getBreakpoint(): string | undefined;
 }
 
 /**
@@ -120,9 +121,19 @@ export function Options( Splide: Splide, Components: Components, options: Option
     }
   }
 
+  /**
+   * Returns the breakpoint that currently matches the media query.
+   *
+   * @return The active breakpoint, or `undefined` if no breakpoint matches.
+   */
+  function getBreakpoint(): string | undefined {
+    return currPoint;
+  }
+
   return {
     setup,
     mount,
     destroy,
+    getBreakpoint,
   };
 }
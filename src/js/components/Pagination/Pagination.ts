@@ -6,6 +6,9 @@ import {
   EVENT_PAGINATION_UPDATED,
   EVENT_REFRESH,
   EVENT_SCROLLED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
   EVENT_UPDATED,
 } from '../../constants/events';
 import { EventInterface } from '../../constructors';
@@ -88,7 +91,7 @@ export function Pagination( Splide: Splide, Components: Components, options: Opt
    */
   function mount(): void {
     init();
-    on( [ EVENT_UPDATED, EVENT_REFRESH ], init );
+    on( [ EVENT_UPDATED, EVENT_REFRESH, EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED, EVENT_SLIDES_MOVED ], init );
     on( [ EVENT_MOVE, EVENT_SCROLLED ], update );
   }
 
@@ -0,0 +1,162 @@
+import {
+  EVENT_AUTOPLAY_PAUSE,
+  EVENT_AUTOPLAY_PLAY,
+  EVENT_MOVED,
+  EVENT_SCROLLED,
+} from '../../constants/events';
+import { PROJECT_CODE } from '../../constants/project';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components, Options } from '../../types';
+import { isObject, isUndefined } from '../../utils';
+
+
+/**
+ * The interface for the Persist component.
+ *
+ * @since 3.7.0
+ */
+export interface PersistComponent extends BaseComponent {
+  save(): void;
+  clear(): void;
+}
+
+/**
+ * The interface for the storage that persists the slider state.
+ * `sessionStorage` and `localStorage` satisfy this interface.
+ *
+ * @since 3.7.0
+ */
+export interface PersistStorage {
+  getItem( key: string ): string | null;
+  setItem( key: string, value: string ): void;
+  removeItem( key: string ): void;
+}
+
+/**
+ * The interface for the persisted state.
+ *
+ * @since 3.7.0
+ */
+export interface PersistedState {
+  index: number;
+  paused?: boolean;
+}
+
+/**
+ * The component for saving the slider position to the storage and restoring it on the next page load.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return A Persist component object.
+ */
+export function Persist( Splide: Splide, Components: Components, options: Options ): PersistComponent {
+  const { on, bind } = EventInterface( Splide );
+  const { persist } = options;
+  const key = `${ PROJECT_CODE }-${ Splide.root.id }`;
+
+  /**
+   * Keeps the restored paused state of autoplay until the component is mounted.
+   */
+  let paused: boolean | undefined;
+
+  /**
+   * Called when the component is constructed.
+   * Lets the Controller start from the saved index, without modifying the `start` option.
+   */
+  function setup(): void {
+    const state = persist && load();
+
+    if ( state ) {
+      Components.Controller.setStart( state.index );
+      paused = state.paused;
+    }
+  }
+
+  /**
+   * Called when the component is mounted.
+   * The restored paused state is applied through the Autoplay component that has been already mounted.
+   */
+  function mount(): void {
+    if ( persist ) {
+      if ( options.persistAutoplay && options.autoplay && ! isUndefined( paused ) ) {
+        paused ? Components.Autoplay.pause() : Components.Autoplay.play();
+      }
+
+      on( [ EVENT_MOVED, EVENT_SCROLLED, EVENT_AUTOPLAY_PLAY, EVENT_AUTOPLAY_PAUSE ], save );
+      bind( window, 'pagehide', save );
+    }
+  }
+
+  /**
+   * Saves the current state to the storage.
+   */
+  function save(): void {
+    const storage = getStorage();
+
+    if ( storage ) {
+      const state: PersistedState = { index: Splide.index };
+
+      if ( options.persistAutoplay && options.autoplay ) {
+        state.paused = Components.Autoplay.isPaused( true );
+      }
+
+      attempt( () => storage.setItem( key, JSON.stringify( state ) ) );
+    }
+  }
+
+  /**
+   * Removes the saved state from the storage.
+   */
+  function clear(): void {
+    const storage = getStorage();
+    storage && attempt( () => storage.removeItem( key ) );
+  }
+
+  /**
+   * Loads the saved state from the storage.
+   *
+   * @return A saved state if available, or otherwise `null`.
+   */
+  function load(): PersistedState | null {
+    const storage = getStorage();
+    const state   = storage && attempt<PersistedState>( () => JSON.parse( storage.getItem( key ) ) );
+    return isObject( state ) && state.index >= 0 ? state : null;
+  }
+
+  /**
+   * Returns the storage according to the `persist` and `persistStorage` options.
+   * Accessing Web Storage may throw an error, for example, if cookies are disabled.
+   *
+   * @return A storage object if available, or otherwise `null`.
+   */
+  function getStorage(): PersistStorage | null {
+    return options.persistStorage || attempt( () => persist === 'local' ? localStorage : sessionStorage );
+  }
+
+  /**
+   * Invokes the function and returns the result, or `null` if the function throws an error.
+   *
+   * @param func - A function to invoke.
+   *
+   * @return The result of the function, or `null`.
+   */
+  function attempt<T>( func: () => T ): T | null {
+    try {
+      return func();
+    } catch ( e ) {
+      return null;
+    }
+  }
+
+  return {
+    setup,
+    mount,
+    save,
+    clear,
+  };
+}
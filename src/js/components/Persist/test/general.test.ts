@@ -0,0 +1,95 @@
+import { init } from '../../../test';
+import { PersistStorage } from '../Persist';
+
+
+describe( 'Persist', () => {
+  function createStorage(): PersistStorage & { items: Record<string, string> } {
+    const items: Record<string, string> = {};
+
+    return {
+      items,
+      getItem: key => ( key in items ? items[ key ] : null ),
+      setItem: ( key, value ) => { items[ key ] = value },
+      removeItem: key => { delete items[ key ] },
+    };
+  }
+
+  test( 'can save the index and restore it on the next mount.', () => {
+    const persistStorage = createStorage();
+    const splide1 = init( { speed: 0, persist: true, persistStorage }, { id: 'persist' } );
+
+    splide1.go( 4 );
+    expect( JSON.parse( persistStorage.items[ 'splide-persist' ] ).index ).toBe( 4 );
+
+    const splide2 = init( { speed: 0, persist: true, persistStorage }, { id: 'persist' } );
+    expect( splide2.index ).toBe( 4 );
+    expect( splide2.Components.Move.getPosition() ).toBe( splide2.Components.Move.toPosition( 4, true ) );
+  } );
+
+  test( 'can save and restore the manually paused state of autoplay.', () => {
+    const persistStorage = createStorage();
+    const options = { autoplay: true, persist: true, persistAutoplay: true, persistStorage };
+    const splide1 = init( options, { id: 'persist' } );
+
+    splide1.Components.Autoplay.pause();
+
+    const splide2 = init( options, { id: 'persist' } );
+    expect( splide2.Components.Autoplay.isPaused() ).toBe( true );
+
+    splide2.Components.Autoplay.play();
+
+    const splide3 = init( options, { id: 'persist' } );
+    expect( splide3.Components.Autoplay.isPaused() ).toBe( false );
+  } );
+
+  test( 'should not modify options when restoring the state.', () => {
+    const persistStorage = createStorage();
+    const options = { speed: 0, start: 1, autoplay: true, persist: true, persistAutoplay: true, persistStorage };
+    const splide1 = init( options, { id: 'persist' } );
+
+    splide1.go( 3 );
+    splide1.Components.Autoplay.pause();
+
+    const splide2 = init( options, { id: 'persist' } );
+
+    expect( splide2.index ).toBe( 3 );
+    expect( splide2.Components.Autoplay.isPaused() ).toBe( true );
+    expect( splide2.options.start ).toBe( 1 );
+    expect( splide2.options.autoplay ).toBe( true );
+  } );
+
+  test( 'can resume autoplay that is paused by the option.', () => {
+    const persistStorage = createStorage();
+    const options = { autoplay: 'pause' as const, persist: true, persistAutoplay: true, persistStorage };
+
+    persistStorage.setItem( 'splide-persist', JSON.stringify( { index: 0, paused: false } ) );
+    expect( init( options, { id: 'persist' } ).Components.Autoplay.isPaused() ).toBe( false );
+  } );
+
+  test( 'can clear the saved state.', () => {
+    const persistStorage = createStorage();
+    const splide1 = init( { speed: 0, persist: true, persistStorage }, { id: 'persist' } );
+
+    splide1.go( 3 );
+    splide1.Components.Persist.clear();
+
+    expect( init( { persist: true, persistStorage }, { id: 'persist' } ).index ).toBe( 0 );
+  } );
+
+  test( 'should ignore the invalid data.', () => {
+    const persistStorage = createStorage();
+
+    persistStorage.setItem( 'splide-persist', '{invalid' );
+    expect( init( { persist: true, persistStorage, start: 2 }, { id: 'persist' } ).index ).toBe( 2 );
+  } );
+
+  test( 'can use Web Storage by default.', () => {
+    const splide1 = init( { speed: 0, persist: 'local' }, { id: 'persist' } );
+
+    splide1.go( 2 );
+    expect( init( { persist: 'local' }, { id: 'persist' } ).index ).toBe( 2 );
+    expect( init( { persist: true }, { id: 'persist' } ).index ).toBe( 0 );
+
+    localStorage.clear();
+  } );
+} );
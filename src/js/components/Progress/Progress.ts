@@ -0,0 +1,202 @@
+import {
+  EVENT_DRAG,
+  EVENT_DRAGGED,
+  EVENT_FROM_EDGE,
+  EVENT_MOVE,
+  EVENT_MOVED,
+  EVENT_PROGRESS,
+  EVENT_REACH_BEGINNING,
+  EVENT_REACH_END,
+  EVENT_REFRESH,
+  EVENT_REPOSITIONED,
+  EVENT_SCROLL,
+  EVENT_SCROLLED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_UPDATED,
+} from '../../constants/events';
+import { DRAGGING, MOVING } from '../../constants/states';
+import { FADE, LOOP } from '../../constants/types';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components } from '../../types';
+import { approximatelyEqual, clamp } from '../../utils';
+
+
+/**
+ * The interface for the Progress component.
+ *
+ * @since 3.7.0
+ */
+export interface ProgressComponent extends BaseComponent {
+  get(): number;
+}
+
+/**
+ * The type for the edge where the slider is.
+ * The empty string means the slider is not at any edge.
+ *
+ * @since 3.7.0
+ */
+type Edge = 'beginning' | 'end' | '';
+
+/**
+ * The component for tracking the progress of the slider and emitting edge events.
+ * While the slider is moving, dragged or scrolled, the progress is sampled on every animation frame.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ *
+ * @return A Progress component object.
+ */
+export function Progress( Splide: Splide, Components: Components ): ProgressComponent {
+  const { on, emit } = EventInterface( Splide );
+  const { Move, Controller } = Components;
+
+  /**
+   * The latest progress between 0 and 1.
+   */
+  let progress: number;
+
+  /**
+   * The latest edge where the slider is.
+   */
+  let edge: Edge;
+
+  /**
+   * The ID of the requested animation frame.
+   */
+  let id: number;
+
+  /**
+   * Indicates whether the Scroll component is scrolling the slider or not.
+   */
+  let scrolling: boolean;
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    on( [ EVENT_MOVE, EVENT_DRAG ], request );
+    on( [
+      EVENT_MOVED,
+      EVENT_DRAGGED,
+      EVENT_REPOSITIONED,
+      EVENT_UPDATED,
+      EVENT_REFRESH,
+      EVENT_SLIDES_ADDED,
+      EVENT_SLIDES_REMOVED,
+      EVENT_SLIDES_MOVED,
+    ], update );
+
+    on( EVENT_SCROLL, () => {
+      scrolling = true;
+      request();
+    } );
+
+    on( EVENT_SCROLLED, () => {
+      scrolling = false;
+      update();
+    } );
+  }
+
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    cancelAnimationFrame( id );
+    id = 0;
+  }
+
+  /**
+   * Requests the next frame to sample the progress.
+   */
+  function request(): void {
+    id = id || requestAnimationFrame( tick );
+  }
+
+  /**
+   * Called on every animation frame while the slider is in motion.
+   */
+  function tick(): void {
+    id = 0;
+    update();
+
+    if ( Splide.state.is( [ MOVING, DRAGGING ] ) || scrolling ) {
+      request();
+    }
+  }
+
+  /**
+   * Computes the progress and the edge, and emits events if they change.
+   */
+  function update(): void {
+    const [ rate, newEdge ] = compute();
+
+    if ( rate !== progress ) {
+      emit( EVENT_PROGRESS, ( progress = rate ) );
+    }
+
+    if ( newEdge !== edge ) {
+      if ( edge ) {
+        emit( EVENT_FROM_EDGE, edge );
+      }
+
+      if ( newEdge ) {
+        emit( newEdge === 'end' ? EVENT_REACH_END : EVENT_REACH_BEGINNING );
+      }
+
+      edge = newEdge;
+    }
+  }
+
+  /**
+   * Computes the progress by the current position against limits, and the edge where the slider is.
+   * The fade slider uses the index instead of the position.
+   * The loop slider never reaches edges.
+   *
+   * @return A tuple with the progress and the edge.
+   */
+  function compute(): [ number, Edge ] {
+    let rate = 0;
+    let atStart: boolean;
+    let atEnd: boolean;
+
+    if ( Splide.is( FADE ) ) {
+      const index = Controller.getIndex();
+      const end   = Controller.getEnd();
+
+      rate    = end ? clamp( index / end, 0, 1 ) : 0;
+      atStart = index === 0;
+      atEnd   = index >= end;
+    } else {
+      const position = Move.getPosition();
+      const min      = Move.getLimit( false );
+      const max      = Move.getLimit( true );
+
+      rate    = max === min ? 0 : clamp( ( position - min ) / ( max - min ), 0, 1 );
+      atStart = approximatelyEqual( position, min, 1 ) || rate === 0;
+      atEnd   = approximatelyEqual( position, max, 1 ) || rate === 1;
+    }
+
+    return [ rate, Splide.is( LOOP ) ? '' : atStart ? 'beginning' : atEnd ? 'end' : '' ];
+  }
+
+  /**
+   * Returns the latest progress.
+   *
+   * @return The progress between 0 and 1.
+   */
+  function get(): number {
+    return progress;
+  }
+
+  return {
+    mount,
+    destroy,
+    get,
+  };
+}
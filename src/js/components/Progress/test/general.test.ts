@@ -0,0 +1,77 @@
+import {
+  EVENT_FROM_EDGE,
+  EVENT_PROGRESS,
+  EVENT_REACH_BEGINNING,
+  EVENT_REACH_END,
+} from '../../../constants/events';
+import { fire, init, wait } from '../../../test';
+
+
+describe( 'Progress', () => {
+  test( 'can emit the progress computed by the position.', () => {
+    const splide   = init( { width: 200, height: 100, speed: 0 }, { mount: false } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_PROGRESS, callback );
+    splide.mount();
+
+    expect( callback ).toHaveBeenLastCalledWith( 0 );
+
+    splide.go( 3 );
+    expect( callback ).toHaveBeenLastCalledWith( 3 / 9 );
+    expect( splide.Components.Progress.get() ).toBe( 3 / 9 );
+
+    splide.go( 9 );
+    expect( callback ).toHaveBeenLastCalledWith( 1 );
+  } );
+
+  test( 'can emit edge events when the slider reaches or leaves edges.', () => {
+    const splide    = init( { width: 200, height: 100, speed: 0 } );
+    const beginning = jest.fn();
+    const end       = jest.fn();
+    const fromEdge  = jest.fn();
+
+    splide.on( EVENT_REACH_BEGINNING, beginning );
+    splide.on( EVENT_REACH_END, end );
+    splide.on( EVENT_FROM_EDGE, fromEdge );
+
+    splide.go( 2 );
+    expect( fromEdge ).toHaveBeenLastCalledWith( 'beginning' );
+
+    splide.go( 5 );
+    expect( fromEdge ).toHaveBeenCalledTimes( 1 );
+
+    splide.go( 9 );
+    expect( end ).toHaveBeenCalledTimes( 1 );
+
+    splide.go( 0 );
+    expect( fromEdge ).toHaveBeenLastCalledWith( 'end' );
+    expect( beginning ).toHaveBeenCalledTimes( 1 );
+    expect( fromEdge ).toHaveBeenCalledTimes( 2 );
+  } );
+
+  test( 'can sample the progress during the transition.', async () => {
+    const splide   = init( { width: 200, height: 100 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_PROGRESS, callback );
+    splide.go( 2 );
+
+    await wait( 50 );
+
+    expect( callback ).toHaveBeenCalledWith( 2 / 9 );
+
+    fire( splide.Components.Elements.list, 'transitionend' );
+  } );
+
+  test( 'should not emit edge events in the loop mode.', () => {
+    const splide   = init( { type: 'loop', width: 200, height: 100, speed: 0 } );
+    const callback = jest.fn();
+
+    splide.on( `${ EVENT_REACH_BEGINNING } ${ EVENT_REACH_END } ${ EVENT_FROM_EDGE }`, callback );
+    splide.go( 9 );
+    splide.go( 0 );
+
+    expect( callback ).not.toHaveBeenCalled();
+  } );
+} );
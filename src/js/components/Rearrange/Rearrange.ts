@@ -0,0 +1,204 @@
+import {
+  EVENT_REFRESH,
+  EVENT_RESIZED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_UPDATED,
+} from '../../constants/events';
+import { DEFAULT_EVENT_PRIORITY } from '../../constants/priority';
+import { LOOP } from '../../constants/types';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components, Options } from '../../types';
+import { SlideComponent } from '../Slides/Slide';
+import { empty, find, round, style } from '../../utils';
+
+
+/**
+ * The interface for the Rearrange component.
+ *
+ * @since 3.7.0
+ */
+export interface RearrangeComponent extends BaseComponent {
+  isEnabled(): boolean;
+  period(): number;
+  shiftOf( index: number ): number;
+  update( position: number, from?: number ): void;
+}
+
+/**
+ * The component for looping the slider without clones.
+ * Each slide is translated by whole cycles so that it stays around the viewport,
+ * which keeps iframes, media and bound handlers of the original elements alive.
+ * This requires enough slides to cover the viewport and the distance of a transition.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return A Rearrange component object.
+ */
+export function Rearrange( Splide: Splide, Components: Components, options: Options ): RearrangeComponent {
+  const { on } = EventInterface( Splide );
+  const { Slides, Layout } = Components;
+  const { resolve, orient } = Components.Direction;
+
+  /**
+   * Holds the number of cycles each slide is shifted by.
+   */
+  const cycles: number[] = [];
+
+  /**
+   * Holds the distance from the head of the list to the middle of each slide, when it is not shifted.
+   */
+  const middles: number[] = [];
+
+  /**
+   * Holds pairs of shifted slide elements and their original inline transforms to restore.
+   */
+  const originals: Array<[ HTMLElement, string ]> = [];
+
+  /**
+   * Keeps the size of one cycle, which is the sum of all slide sizes including gaps.
+   * Middles of slides are measured together, and both are invalidated by setting this to `0`.
+   */
+  let size = 0;
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    const priority = DEFAULT_EVENT_PRIORITY - 1;
+
+    on( [ EVENT_UPDATED, EVENT_REFRESH, EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED, EVENT_SLIDES_MOVED ], reset, priority );
+    on( EVENT_RESIZED, () => {
+      size = 0;
+      cycles.length && apply();
+    }, priority );
+  }
+
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    reset();
+  }
+
+  /**
+   * Puts all slides back to their original positions by restoring original transforms,
+   * including ones of slides that have already been removed.
+   * Transforms are not touched unless they have been applied by this component.
+   */
+  function reset(): void {
+    size = 0;
+    empty( cycles );
+    originals.forEach( ( [ slide, transform ] ) => { style( slide, 'transform', transform ) } );
+    empty( originals );
+  }
+
+  /**
+   * Arranges slides around the viewport while the list moves from the `from` position to the `position`.
+   * Each slide is placed at the cycle whose center is the closest to the middle of the range.
+   * Since this is called on every translation, only slides whose cycle changes are updated.
+   *
+   * @param position - A destination position of the list.
+   * @param from     - Optional. A position where the list starts moving from. If omitted, uses the `position`.
+   */
+  function update( position: number, from = position ): void {
+    const cycle = isEnabled() && period();
+
+    if ( cycle ) {
+      const { listSize, getPadding } = Layout;
+      const center = orient( ( position + from ) / 2 ) + ( listSize() + getPadding( true ) - getPadding( false ) ) / 2;
+
+      Slides.forEach( Slide => {
+        const { index } = Slide;
+        const count = round( ( center - middles[ index ] ) / cycle );
+
+        if ( count !== ( cycles[ index ] || 0 ) ) {
+          cycles[ index ] = count;
+          shift( Slide );
+        }
+      }, true );
+    }
+  }
+
+  /**
+   * Applies shifts to all slides by transforms.
+   */
+  function apply(): void {
+    Slides.forEach( shift, true );
+  }
+
+  /**
+   * Applies the shift to the slide by the transform.
+   * The translation is prepended to the original inline transform of the slide, such as `scale()`,
+   * and the original one is restored when the slide goes back to the first cycle.
+   *
+   * @param Slide - A Slide object to shift.
+   */
+  function shift( Slide: SlideComponent ): void {
+    const { slide } = Slide;
+    const distance = shiftOf( Slide.index );
+    const original = find( originals, pair => pair[ 0 ] === slide );
+
+    if ( distance ) {
+      const transform = original ? original[ 1 ] : slide.style.transform;
+      original || originals.push( [ slide, transform ] );
+      Slide.style( 'transform', `translate${ resolve( 'X' ) }(${ orient( -distance ) }px) ${ transform }`.trim() );
+    } else if ( original ) {
+      originals.splice( originals.indexOf( original ), 1 );
+      Slide.style( 'transform', original[ 1 ] );
+    }
+  }
+
+  /**
+   * Returns the distance the slide is shifted by, along the direction of the slider.
+   *
+   * @param index - A slide index.
+   *
+   * @return The shifted distance in pixel.
+   */
+  function shiftOf( index: number ): number {
+    const cycle = isEnabled() && cycles[ index ];
+    return cycle ? cycle * period() : 0;
+  }
+
+  /**
+   * Returns the size of one cycle, which the slider is shifted by when it loops.
+   * Slides are measured only after the size is invalidated, and never while the component is disabled.
+   *
+   * @return The size of one cycle in pixel, or `0` if the component is disabled.
+   */
+  function period(): number {
+    if ( ! size && isEnabled() ) {
+      Slides.forEach( ( { index } ) => {
+        middles[ index ] = size + Layout.slideSize( index, true ) / 2;
+        size += Layout.slideSize( index );
+      }, true );
+    }
+
+    return size;
+  }
+
+  /**
+   * Checks if the slider loops by rearranging slides or not.
+   *
+   * @return `true` if the slider rearranges slides instead of cloning them, or otherwise `false`.
+   */
+  function isEnabled(): boolean {
+    return !! options.rearrange && Splide.is( LOOP );
+  }
+
+  return {
+    mount,
+    destroy,
+    isEnabled,
+    period,
+    shiftOf,
+    update,
+  };
+}
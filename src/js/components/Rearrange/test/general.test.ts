@@ -0,0 +1,174 @@
+import { CLASS_CLONE } from '../../../constants/classes';
+import { Splide } from '../../../core/Splide/Splide';
+import { Options } from '../../../types';
+import { assign } from '../../../utils';
+import { fire, init, parseTransform } from '../../../test';
+
+
+/**
+ * Creates a looping slider without clones,
+ * whose slides reflect their own transforms to the bounding rect.
+ *
+ * @param options - Options for Splide.
+ *
+ * @return A mounted Splide instance.
+ */
+function create( options: Options = {} ): Splide {
+  const splide = init( assign( { type: 'loop', rearrange: true, speed: 0 }, options ), { mount: false } );
+
+  Array.prototype.forEach.call( splide.root.querySelectorAll( '.splide__slide' ), ( slide: HTMLElement ) => {
+    const getRect = slide.getBoundingClientRect;
+
+    slide.getBoundingClientRect = (): DOMRect => {
+      const rect = getRect();
+      const { left } = parseTransform( slide );
+      return assign( {}, rect, { left: rect.left + left, right: rect.right + left } );
+    };
+  } );
+
+  return splide.mount();
+}
+
+describe( 'Rearrange', () => {
+  test( 'can loop the slider without generating clones.', () => {
+    const splide = create();
+
+    expect( splide.root.querySelectorAll( `.${ CLASS_CLONE }` ).length ).toBe( 0 );
+    expect( splide.length ).toBe( 10 );
+    expect( splide.Components.Slides.get().length ).toBe( 10 );
+  } );
+
+  test( 'can place a half of slides before the first one.', () => {
+    const splide = create();
+    const Slides = splide.Components.Slides.get();
+
+    Slides.slice( 0, 6 ).forEach( Slide => {
+      expect( Slide.slide.style.transform ).toBe( '' );
+    } );
+
+    Slides.slice( 6 ).forEach( Slide => {
+      expect( Slide.slide.style.transform ).toBe( 'translateX(-12800px)' );
+    } );
+  } );
+
+  test( 'can rearrange slides when the slider loops.', () => {
+    const splide = create();
+    const Slides = splide.Components.Slides.get();
+
+    splide.go( '<' );
+
+    expect( splide.index ).toBe( 9 );
+    expect( splide.Components.Move.getPosition() ).toBe( -11520 );
+    expect( Slides[ 0 ].slide.style.transform ).toBe( 'translateX(12800px)' );
+    expect( Slides[ 9 ].slide.style.transform ).toBe( '' );
+
+    splide.go( '>' );
+
+    expect( splide.index ).toBe( 0 );
+    expect( splide.Components.Move.getPosition() ).toBe( 0 );
+    expect( Slides[ 0 ].slide.style.transform ).toBe( '' );
+    expect( Slides[ 9 ].slide.style.transform ).toBe( 'translateX(-12800px)' );
+  } );
+
+  test( 'can compute sizes beyond the edges by cycles of slides.', () => {
+    const splide = create( { perPage: 2, focus: 'center' } );
+    const { totalSize, sliderSize } = splide.Components.Layout;
+    const { toPosition } = splide.Components.Move;
+
+    expect( sliderSize() ).toBe( 6400 );
+    expect( totalSize( -1 ) ).toBe( 0 );
+    expect( totalSize( 10 ) ).toBe( totalSize( 0 ) + 6400 );
+    expect( totalSize( -3 ) ).toBe( totalSize( 7 ) - 6400 );
+    expect( toPosition( -1 ) ).toBe( toPosition( 9 ) + 6400 );
+  } );
+
+  test( 'can keep slides around the viewport with focus.', () => {
+    const splide = create( { perPage: 2, focus: 'center' } );
+    const Slides = splide.Components.Slides.get();
+
+    expect( splide.Components.Move.getPosition() ).toBe( 320 );
+    expect( Slides[ 9 ].slide.style.transform ).toBe( 'translateX(-6400px)' );
+    expect( Slides[ 8 ].slide.style.transform ).toBe( 'translateX(-6400px)' );
+    expect( Slides[ 1 ].slide.style.transform ).toBe( '' );
+  } );
+
+  test( 'can rearrange slides while the slider is dragged over the edge.', () => {
+    const splide = create();
+    const Slides = splide.Components.Slides.get();
+    const { track } = splide.Components.Elements;
+
+    fireWithCoord( track, 'mousedown', { x: 0, timeStamp: 1 } );
+    fireWithCoord( window, 'mousemove', { x: 1, timeStamp: 1 } );
+    fireWithCoord( window, 'mousemove', { x: 100, timeStamp: 2 } );
+
+    expect( splide.Components.Move.getPosition() ).toBe( -12700 );
+    expect( Slides[ 0 ].slide.style.transform ).toBe( 'translateX(12800px)' );
+    expect( Slides[ 9 ].slide.style.transform ).toBe( '' );
+  } );
+
+  test( 'should update only slides whose cycle changes.', () => {
+    const splide = create();
+    const Slides = splide.Components.Slides.get();
+    const { track } = splide.Components.Elements;
+    const spies  = Slides.map( Slide => jest.spyOn( Slide, 'style' ) );
+    const total  = () => spies.reduce( ( sum, spy ) => sum + spy.mock.calls.length, 0 );
+
+    fireWithCoord( track, 'mousedown', { x: 0, timeStamp: 1 } );
+    fireWithCoord( window, 'mousemove', { x: -1, timeStamp: 1 } );
+    fireWithCoord( window, 'mousemove', { x: -100, timeStamp: 2 } );
+    fireWithCoord( window, 'mousemove', { x: -200, timeStamp: 3 } );
+
+    expect( total() ).toBe( 0 );
+
+    fireWithCoord( window, 'mousemove', { x: -1500, timeStamp: 4 } );
+    fireWithCoord( window, 'mousemove', { x: -1600, timeStamp: 5 } );
+
+    expect( splide.Components.Move.getPosition() ).toBe( -1600 );
+    expect( total() ).toBe( 1 );
+    expect( spies[ 6 ] ).toHaveBeenCalledWith( 'transform', '' );
+  } );
+
+  test( 'can keep and restore the original transform of each slide.', () => {
+    const splide = init( { type: 'loop', rearrange: true, speed: 0 }, { mount: false } );
+    const slide  = splide.root.querySelectorAll<HTMLElement>( '.splide__slide' )[ 9 ];
+
+    slide.style.transform = 'scale(0.5)';
+    splide.mount();
+
+    expect( slide.style.transform ).toBe( 'translateX(-12800px) scale(0.5)' );
+
+    splide.go( '<' );
+    expect( slide.style.transform ).toBe( 'scale(0.5)' );
+
+    splide.go( '>' );
+    expect( slide.style.transform ).toBe( 'translateX(-12800px) scale(0.5)' );
+
+    splide.destroy();
+    expect( slide.style.transform ).toBe( 'scale(0.5)' );
+  } );
+
+  test( 'should not measure slides if the slider does not rearrange slides.', () => {
+    const splide = init( { rearrange: true } );
+    const { Rearrange } = splide.Components;
+    const spy = jest.spyOn( splide.Components.Layout, 'slideSize' );
+
+    expect( Rearrange.isEnabled() ).toBe( false );
+    expect( Rearrange.period() ).toBe( 0 );
+    expect( Rearrange.shiftOf( 1 ) ).toBe( 0 );
+    expect( spy ).not.toHaveBeenCalled();
+  } );
+
+  test( 'can restore transforms of slides on destroy.', () => {
+    const splide = create();
+    const { slide } = splide.Components.Slides.getAt( 9 );
+
+    splide.destroy();
+
+    expect( slide.style.transform ).toBe( '' );
+  } );
+} );
+
+function fireWithCoord( elm: Element | Window, event: string, data: any = {} ): void {
+  const { x: pageX = 0, y: pageY = 0 } = data;
+  fire( elm, event, assign( data, { pageX, pageY, touches: [ { pageX, pageY } ] } ), { cancelable: true } );
+}
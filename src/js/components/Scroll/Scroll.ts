@@ -3,7 +3,7 @@ import { SLIDE } from '../../constants/types';
 import { EventInterface, RequestInterval, RequestIntervalInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
 import { AnyFunction, BaseComponent, Components, Options } from '../../types';
-import { abs, between, max } from '../../utils';
+import { abs, between, isUndefined, max } from '../../utils';
 import { BASE_VELOCITY, BOUNCE_DIFF_THRESHOLD, BOUNCE_DURATION, FRICTION_FACTOR, MIN_DURATION } from './constants';
 
 
@@ -13,7 +13,13 @@ import { BASE_VELOCITY, BOUNCE_DIFF_THRESHOLD, BOUNCE_DURATION, FRICTION_FACTOR,
  * @since 3.0.0
  */
 export interface ScrollComponent extends BaseComponent {
-  scroll( position: number, duration?: number, callback?: AnyFunction ): void;
+  scroll(
+    position: number,
+    duration?: number,
+    callback?: AnyFunction,
+    suppressConstraint?: boolean,
+    easingFunc?: ( t: number ) => number
+  ): void;
   cancel(): void;
 }
 
@@ -54,27 +60,38 @@ export function Scroll( Splide: Splide, Components: Components, options: Options
   /**
    * Scrolls the slider to the provided destination.
    *
+   * If the duration is `0`, the slider jumps to the destination immediately.
+   *
    * @param destination        - The destination to scroll to.
    * @param duration           - Optional. The scroll duration. If omitted, calculates it by the distance.
    * @param callback           - Optional. A callback invoked after scroll ends.
    * @param suppressConstraint - Optional. Whether to suppress constraint process when the slider exceeds bounds.
+   * @param easingFunc         - Optional. An easing function for this scroll instead of the `easingFunc` option.
    */
   function scroll(
     destination: number,
     duration?: number,
     callback?: AnyFunction,
-    suppressConstraint?: boolean
+    suppressConstraint?: boolean,
+    easingFunc?: ( t: number ) => number
   ): void {
     const start = getPosition();
     let friction = 1;
 
-    duration       = duration || computeDuration( abs( destination - start ) );
+    duration       = isUndefined( duration ) ? computeDuration( abs( destination - start ) ) : duration;
     scrollCallback = callback;
     clear();
 
+    if ( duration < 1 ) {
+      Move.translate( destination );
+      emit( EVENT_SCROLL );
+      onScrolled();
+      return;
+    }
+
     interval = RequestInterval( duration, onScrolled, rate => {
       const position = getPosition();
-      const target   = start + ( destination - start ) * easing( rate );
+      const target   = start + ( destination - start ) * easing( rate, easingFunc );
       const diff     = ( target - getPosition() ) * friction;
 
       Move.translate( position + diff );
@@ -149,13 +166,13 @@ export function Scroll( Splide: Splide, Components: Components, options: Options
   /**
    * The easing function.
    *
-   * @param t - A value to ease.
+   * @param t    - A value to ease.
+   * @param func - Optional. An easing function to use instead of the `easingFunc` option.
    *
    * @return An eased value.
    */
-  function easing( t: number ): number {
-    const { easingFunc } = options;
-    return easingFunc ? easingFunc( t ) : 1 - Math.pow( 1 - t, 4 );
+  function easing( t: number, func = options.easingFunc ): number {
+    return func ? func( t ) : 1 - Math.pow( 1 - t, 4 );
   }
 
   return {
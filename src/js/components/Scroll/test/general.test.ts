@@ -73,4 +73,33 @@ describe( 'Scroll', () => {
 
     splide.destroy();
   } );
+
+  test( 'can jump to the destination immediately if the duration is 0.', () => {
+    const splide   = init();
+    const callback = jest.fn();
+
+    splide.Components.Scroll.scroll( -100, 0, callback );
+
+    expect( splide.Components.Move.getPosition() ).toBe( -100 );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'can scroll the slider with the navigation options.', async () => {
+    const splide     = init( { useScroll: true } );
+    const easingFunc = jest.fn( ( t: number ) => t );
+
+    await wait( 100 );
+
+    splide.go( 2, { speed: 100, easingFunc } );
+
+    await wait( 150 );
+
+    expect( easingFunc ).toHaveBeenCalled();
+    expect( splide.index ).toBe( 2 );
+
+    splide.go( 4, { instant: true } );
+    expect( splide.index ).toBe( 4 );
+
+    splide.destroy();
+  } );
 } );
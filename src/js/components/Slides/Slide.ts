@@ -68,6 +68,7 @@ export interface  SlideComponent extends BaseComponent {
   update(): void;
   style( prop: string, value: string | number, useContainer?: boolean ): void
   isWithin( from: number, distance: number ): boolean;
+  reindex( index: number ): void;
 }
 
 /**
@@ -97,20 +98,53 @@ export function Slide( Splide: Splide, index: number, slideIndex: number, slide:
    */
   let destroyed: boolean;
 
+  /**
+   * Turns into `true` when the slide is initialized as navigation.
+   */
+  let navigation: boolean;
+
   /**
    * Called when the component is mounted.
+   * Keeps the ID provided by the author so that the slide can be referred to by it, such as `go( '#id' )`.
    */
   function mount( this: SlideComponent ): void {
     if ( ! isClone ) {
-      slide.id = `${ root.id }-slide${ pad( index + 1 ) }`;
       setAttribute( slide, ROLE, 'group' );
       setAttribute( slide, ARIA_ROLEDESCRIPTION, i18n.slide );
-      setAttribute( slide, ARIA_LABEL, format( i18n.slideLabel, [ index + 1, Splide.length ] ) );
+      updateLabel();
     }
 
     listen();
   }
 
+  /**
+   * Sets the ID and the label that contain the slide index.
+   */
+  function updateLabel(): void {
+    const prefix = `${ root.id }-slide`;
+
+    if ( ! slide.id || slide.id.indexOf( prefix ) === 0 ) {
+      slide.id = `${ prefix }${ pad( index + 1 ) }`;
+    }
+
+    setAttribute( slide, ARIA_LABEL, format( i18n.slideLabel, [ index + 1, Splide.length ] ) );
+  }
+
+  /**
+   * Changes the slide index without recreating the component.
+   * The ID and the label are also updated since they contain the index and the number of slides.
+   *
+   * @param newIndex - A new slide index.
+   */
+  function reindex( newIndex: number ): void {
+    self.index = index = newIndex;
+
+    if ( ! destroyed ) {
+      isClone || updateLabel();
+      navigation && initNavigation();
+    }
+  }
+
   /**
    * Listens to some events.
    */
@@ -146,6 +180,8 @@ export function Slide( Splide: Splide, index: number, slideIndex: number, slide:
     const label    = format( i18n.slideX, idx + 1 );
     const controls = Splide.splides.map( target => target.splide.root.id ).join( ' ' );
 
+    navigation = true;
+
     setAttribute( slide, ARIA_LABEL, label );
     setAttribute( slide, ARIA_CONTROLS, controls );
     setAttribute( slide, ROLE, 'menuitem' );
@@ -280,6 +316,7 @@ export function Slide( Splide: Splide, index: number, slideIndex: number, slide:
     update,
     style,
     isWithin,
+    reindex,
   };
 
   return self;
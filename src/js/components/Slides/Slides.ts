@@ -1,22 +1,43 @@
-import { EVENT_MOUNTED, EVENT_REFRESH, EVENT_RESIZE } from '../../constants/events';
+import {
+  EVENT_MOUNTED,
+  EVENT_REFRESH,
+  EVENT_RESIZE,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+} from '../../constants/events';
+import { CLASS_CLONE, CLASS_FILTERED, CLASS_SLIDE } from '../../constants/classes';
+import { KEY_DATA_ATTRIBUTE } from '../../constants/project';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
+import { SlideContent } from '../../renderer/types/types';
 import { AnyFunction, BaseComponent, Components, Options } from '../../types';
 import {
   addClass,
-  append, apply,
+  append,
+  apply,
+  assert,
   before,
   between,
+  children,
+  create,
+  display,
   empty,
   forEach as forEachItem,
+  forOwn,
+  getAttribute,
   includes,
   isFunction,
   isHTMLElement,
   isString,
   matches,
   parseHtml,
+  push,
   queryAll,
   remove as removeNode,
+  removeClass,
+  setAttribute,
+  style,
   toArray,
 } from '../../utils';
 import { Slide, SlideComponent } from './Slide';
@@ -30,11 +51,18 @@ import { Slide, SlideComponent } from './Slide';
 export interface  SlidesComponent extends BaseComponent {
   update(): void;
   register( slide: HTMLElement, index: number, slideIndex: number ): void;
+  unregister( elements: HTMLElement[] ): void;
   get( excludeClones?: boolean ): SlideComponent[];
   getIn( page: number ): SlideComponent[];
   getAt( index: number ): SlideComponent | undefined;
   add( slide: string | Element | Array<string | Element>, index?: number ): void;
   remove( selector: SlideMatcher ): void;
+  set<T>( items: T[], setOptions: SetSlidesOptions<T> ): void;
+  move( from: number, to: number ): void;
+  swap( index1: number, index2: number ): void;
+  sort( compare: SlidesComparator ): void;
+  narrow( matcher: SlideMatcher | null ): void;
+  build( template: SlideTemplate ): HTMLElement;
   forEach( iteratee: SlidesIteratee, excludeClones?: boolean ): void;
   filter( matcher: SlideMatcher ): SlideComponent[];
   style( prop: string, value: string | number, useContainer?: boolean ): void
@@ -56,6 +84,13 @@ export type SlidesIteratee = ( Slide: SlideComponent, index: number, Slides: Sli
  */
 export type SlidesPredicate = ( Slide: SlideComponent, index: number, Slides: SlideComponent[] ) => any
 
+/**
+ * The comparator function for sorting slides.
+ *
+ * @since 3.7.0
+ */
+export type SlidesComparator = ( Slide1: SlideComponent, Slide2: SlideComponent ) => number;
+
 /**
  * The type for filtering SlideComponent objects.
  *
@@ -63,6 +98,32 @@ export type SlidesPredicate = ( Slide: SlideComponent, index: number, Slides: Sl
  */
 export type SlideMatcher = number | number[] | string | SlidesPredicate;
 
+/**
+ * The type for the slide that the render function of `setSlides()` returns.
+ * A string is parsed as HTML of the slide element itself,
+ * whereas `html` of the SlideContent object is used as the content of a new slide element.
+ *
+ * @since 3.7.0
+ */
+export type SlideTemplate = string | HTMLElement | SlideContent;
+
+/**
+ * The interface for options of `setSlides()`.
+ *
+ * @since 3.7.0
+ */
+export interface SetSlidesOptions<T> {
+  /**
+   * Returns the unique key of the item, which identifies the slide to reuse.
+   */
+  key: ( item: T, index: number ) => string | number;
+
+  /**
+   * Returns the slide for the item. This is only called for items that do not have the slide yet.
+   */
+  render: ( item: T, index: number ) => SlideTemplate;
+}
+
 /**
  * The component for managing all slides include clones.
  *
@@ -90,24 +151,37 @@ export function Slides( Splide: Splide, Components: Components, options: Options
     init();
     on( EVENT_REFRESH, destroy );
     on( EVENT_REFRESH, init );
-    on( [ EVENT_MOUNTED, EVENT_REFRESH ], () => {
-      Slides.sort( ( Slide1, Slide2 ) => Slide1.index - Slide2.index );
-    } );
+    on( [ EVENT_MOUNTED, EVENT_REFRESH ], sortByIndex );
   }
 
   /**
    * Initializes the component.
    */
   function init(): void {
-    slides.forEach( ( slide, index ) => { register( slide, index, -1 ) } );
+    const offset = isVirtual() ? Components.Virtual.getStart() : 0;
+    slides.forEach( ( slide, index ) => { register( slide, offset + index, -1 ) } );
   }
 
   /**
    * Destroys the component.
+   * Slides hidden by `narrow()` are restored only when the slider is completely destroyed.
+   *
+   * @param completely - Optional. `true` if the slider is completely destroyed.
    */
-  function destroy(): void {
+  function destroy( completely?: boolean ): void {
     forEach( Slide => { Slide.destroy() } );
     empty( Slides );
+
+    if ( completely ) {
+      reveal( children( list, `.${ CLASS_FILTERED }` ) );
+    }
+  }
+
+  /**
+   * Sorts Slide objects by their indices.
+   */
+  function sortByIndex(): void {
+    Slides.sort( ( Slide1, Slide2 ) => Slide1.index - Slide2.index );
   }
 
   /**
@@ -119,6 +193,7 @@ export function Slides( Splide: Splide, Components: Components, options: Options
 
   /**
    * Registers a slide element and creates a Slide object.
+   * The object is inserted so that Slide objects remain sorted by their indices.
    *
    * @param slide      - A slide element to register.
    * @param index      - A slide index.
@@ -126,8 +201,23 @@ export function Slides( Splide: Splide, Components: Components, options: Options
    */
   function register( slide: HTMLElement, index: number, slideIndex: number ): void {
     const object = Slide( Splide, index, slideIndex, slide );
+    const next   = Slides.filter( Slide => Slide.index > index )[ 0 ];
+
     object.mount();
-    Slides.push( object );
+    Slides.splice( next ? Slides.indexOf( next ) : Slides.length, 0, object );
+  }
+
+  /**
+   * Destroys Slide objects for the provided elements and removes them from the collection.
+   * This does not remove elements from the DOM.
+   *
+   * @param elements - An array with slide elements.
+   */
+  function unregister( elements: HTMLElement[] ): void {
+    filter( Slide => includes( elements, Slide.slide ) ).forEach( Slide => {
+      Slide.destroy();
+      Slides.splice( Slides.indexOf( Slide ), 1 );
+    } );
   }
 
   /**
@@ -168,36 +258,328 @@ export function Slides( Splide: Splide, Components: Components, options: Options
 
   /**
    * Inserts a slide or slides at a specified index.
+   * Only Slide objects for new slides are created, and others are renumbered instead of the full refresh.
+   * The `refresh` event is emitted afterwards only if the `refreshOnChange` option is enabled.
    *
    * @param items - A slide element, an HTML string or an array with them.
-   * @param index - Optional. An index to insert the slide at. If omitted, appends it to the list.
+   * @param index - Optional. An index to insert the slide at. If omitted, inserts it after the last slide.
    */
   function add( items: string | Element | Array<string | Element>, index?: number ): void {
+    assertMutable();
+
+    const ref  = slides[ index ];
+    const at   = ref ? index : slides.length;
+    const next = ref || ( slides.length ? slides[ slides.length - 1 ].nextSibling : list.firstChild );
+    const elements: HTMLElement[] = [];
+
     forEachItem( items, slide => {
       if ( isString( slide ) ) {
         slide = parseHtml( slide );
       }
 
       if ( isHTMLElement( slide ) ) {
-        const ref = slides[ index ];
-        ref ? before( slide, ref ) : append( list, slide );
+        next ? before( slide, next ) : append( list, slide );
         addClass( slide, options.classes.slide );
         observeImages( slide, apply( emit, EVENT_RESIZE ) );
+        elements.push( slide );
       }
     } );
 
-    emit( EVENT_REFRESH );
+    if ( elements.length ) {
+      slides.splice( at, 0, ...elements );
+      forEach( Slide => { Slide.reindex( Slide.index < at ? Slide.index : Slide.index + elements.length ) }, true );
+      elements.forEach( ( slide, i ) => { register( slide, at + i, -1 ) } );
+      emit( EVENT_SLIDES_ADDED, filter( Slide => includes( elements, Slide.slide ) ) );
+      options.refreshOnChange && emit( EVENT_REFRESH );
+    }
   }
 
   /**
    * Removes slides that match the matcher
    * that can be an index, an array with indices, a selector, or an iteratee function.
+   * Only Slide objects for removed slides are destroyed, and others are renumbered instead of the full refresh.
+   * The `refresh` event is emitted afterwards only if the `refreshOnChange` option is enabled.
    *
    * @param matcher - An index, an array with indices, a selector string, or an iteratee function.
    */
   function remove( matcher: SlideMatcher ): void {
-    removeNode( filter( matcher ).map( Slide => Slide.slide ) );
-    emit( EVENT_REFRESH );
+    assertMutable();
+
+    const Removed  = filter( matcher ).filter( Slide => ! Slide.isClone );
+    const elements = Removed.map( Slide => Slide.slide );
+
+    if ( elements.length ) {
+      removeNode( elements );
+      unregister( elements );
+      elements.forEach( slide => { slides.splice( slides.indexOf( slide ), 1 ) } );
+      forEach( ( Slide, i ) => { Slide.reindex( i ) }, true );
+      emit( EVENT_SLIDES_REMOVED, Removed );
+      options.refreshOnChange && emit( EVENT_REFRESH );
+    }
+  }
+
+  /**
+   * Replaces slides with ones for the provided items by diffing their keys against current slides.
+   * Slides for existing keys are reused and only moved if necessary,
+   * slides for new keys are rendered, and slides for missing keys are removed.
+   * The active slide remains active if it still exists.
+   *
+   * @param items      - An array with any data.
+   * @param setOptions - An object with the `key` and `render` functions.
+   */
+  function set<T>( items: T[], setOptions: SetSlidesOptions<T> ): void {
+    assertMutable();
+
+    const { key, render } = setOptions;
+    const current = slides.slice();
+    const active  = current[ Splide.index ];
+    const pool: Record<string, HTMLElement> = {};
+
+    current.forEach( slide => {
+      const id = getAttribute( slide, KEY_DATA_ATTRIBUTE );
+      id !== null && ( pool[ id ] = slide );
+    } );
+
+    const elements = items.map( ( item, index ) => {
+      const id    = String( key( item, index ) );
+      const slide = pool[ id ] || build( render( item, index ) );
+
+      delete pool[ id ];
+      setAttribute( slide, KEY_DATA_ATTRIBUTE, id );
+      return slide;
+    } );
+
+    const Removed = filter( Slide => ! Slide.isClone && ! includes( elements, Slide.slide ) );
+    const added   = elements.filter( slide => ! includes( current, slide ) );
+
+    removeNode( Removed.map( Slide => Slide.slide ) );
+    unregister( Removed.map( Slide => Slide.slide ) );
+
+    const Moved = arrange( elements, current.filter( slide => includes( elements, slide ) ) );
+
+    added.forEach( slide => {
+      addClass( slide, options.classes.slide );
+      observeImages( slide, apply( emit, EVENT_RESIZE ) );
+      register( slide, slides.indexOf( slide ), -1 );
+    } );
+
+    keep( active );
+
+    Removed.length && emit( EVENT_SLIDES_REMOVED, Removed );
+    added.length && emit( EVENT_SLIDES_ADDED, filter( Slide => includes( added, Slide.slide ) ) );
+    Moved.length && emit( EVENT_SLIDES_MOVED, Moved );
+  }
+
+  /**
+   * Moves the slide at the `from` index to the `to` index.
+   *
+   * @param from - An index of the slide to move.
+   * @param to   - A destination index.
+   */
+  function move( from: number, to: number ): void {
+    assertMutable();
+
+    const elements = slides.slice();
+
+    if ( from !== to && elements[ from ] && elements[ to ] ) {
+      elements.splice( to, 0, elements.splice( from, 1 )[ 0 ] );
+      reorder( elements );
+    }
+  }
+
+  /**
+   * Swaps 2 slides.
+   *
+   * @param index1 - An index of the slide.
+   * @param index2 - An index of another slide.
+   */
+  function swap( index1: number, index2: number ): void {
+    assertMutable();
+
+    const elements = slides.slice();
+    const slide1   = elements[ index1 ];
+    const slide2   = elements[ index2 ];
+
+    if ( index1 !== index2 && slide1 && slide2 ) {
+      elements[ index1 ] = slide2;
+      elements[ index2 ] = slide1;
+      reorder( elements );
+    }
+  }
+
+  /**
+   * Sorts slides by the comparator function.
+   *
+   * @param compare - A comparator function that takes 2 Slide objects.
+   */
+  function sort( compare: SlidesComparator ): void {
+    assertMutable();
+
+    reorder( get( true ).sort( compare ).map( Slide => Slide.slide ) );
+  }
+
+  /**
+   * Shows only slides that match the matcher without removing any elements from the DOM.
+   * Other slides are hidden and excluded from the layout, navigation, pagination and labels.
+   * Passing `null` shows all slides again. The active slide remains active if it is still shown.
+   *
+   * @param matcher - A matcher for slides to show, or `null` to show all slides.
+   */
+  function narrow( matcher: SlideMatcher | null ): void {
+    assertMutable();
+
+    const current = slides.slice();
+    const active  = current[ Splide.index ];
+    const hidden  = children( list, `.${ CLASS_FILTERED }` );
+
+    reveal( hidden );
+    empty( slides );
+    push( slides, children( list, `.${ CLASS_SLIDE }:not(.${ CLASS_CLONE })` ) );
+
+    forEach( Slide => { Slide.reindex( slides.indexOf( Slide.slide ) ) }, true );
+    hidden.forEach( slide => { register( slide, slides.indexOf( slide ), -1 ) } );
+    sortByIndex();
+
+    const Shown    = matcher === null ? get( true ) : filter( matcher ).filter( Slide => ! Slide.isClone );
+    const Hidden   = filter( Slide => ! Slide.isClone && ! includes( Shown, Slide ) );
+    const elements = Hidden.map( Slide => Slide.slide );
+
+    unregister( elements );
+    elements.forEach( slide => {
+      addClass( slide, CLASS_FILTERED );
+      display( slide, 'none' );
+    } );
+
+    empty( slides );
+    push( slides, Shown.map( Slide => Slide.slide ) );
+    forEach( Slide => { Slide.reindex( slides.indexOf( Slide.slide ) ) }, true );
+
+    const Removed = Hidden.filter( Slide => includes( current, Slide.slide ) );
+    const Added   = Shown.filter( Slide => ! includes( current, Slide.slide ) );
+    const Moved   = Shown.filter( Slide => includes( current, Slide.slide ) && current.indexOf( Slide.slide ) !== Slide.index );
+
+    keep( active );
+
+    Removed.length && emit( EVENT_SLIDES_REMOVED, Removed );
+    Added.length && emit( EVENT_SLIDES_ADDED, Added );
+    Moved.length && emit( EVENT_SLIDES_MOVED, Moved );
+  }
+
+  /**
+   * Restores slides hidden by `narrow()`.
+   *
+   * @param elements - Slide elements to restore.
+   */
+  function reveal( elements: HTMLElement[] ): void {
+    elements.forEach( slide => {
+      removeClass( slide, CLASS_FILTERED );
+      display( slide, '' );
+    } );
+  }
+
+  /**
+   * Reorders existing slides by the provided elements.
+   * The active slide remains active.
+   *
+   * @param elements - Slide elements in the new order.
+   */
+  function reorder( elements: HTMLElement[] ): void {
+    const active = slides[ Splide.index ];
+    const Moved  = arrange( elements, slides.slice() );
+
+    keep( active );
+    Moved.length && emit( EVENT_SLIDES_MOVED, Moved );
+  }
+
+  /**
+   * Places slide elements in the provided order, and renumbers Slide objects.
+   * Indices, IDs and labels are updated without recreating Slide objects.
+   *
+   * @param elements  - Slide elements in the new order.
+   * @param survivors - Slide elements that are already in the list, in the current order.
+   *
+   * @return An array with Slide objects whose indices are changed.
+   */
+  function arrange( elements: HTMLElement[], survivors: HTMLElement[] ): SlideComponent[] {
+    place( elements, survivors );
+
+    empty( slides );
+    push( slides, elements );
+
+    const Moved = filter( Slide => ! Slide.isClone && Slide.index !== slides.indexOf( Slide.slide ) );
+
+    forEach( Slide => { Slide.reindex( slides.indexOf( Slide.slide ) ) }, true );
+    sortByIndex();
+
+    return Moved;
+  }
+
+  /**
+   * Keeps the slide active after slides are reordered, if it still exists.
+   *
+   * @param active - The slide element that was active.
+   */
+  function keep( active: HTMLElement ): void {
+    if ( includes( slides, active ) ) {
+      const { Controller } = Components;
+      Controller.setIndex( slides.indexOf( active ), Controller.getIndex( true ) );
+    }
+  }
+
+  /**
+   * Inserts elements into the list in the provided order,
+   * moving only elements that are not in the right position.
+   *
+   * @param elements  - Slide elements in the new order.
+   * @param survivors - Slide elements that are already in the list, in the current order.
+   */
+  function place( elements: HTMLElement[], survivors: HTMLElement[] ): void {
+    const placed: HTMLElement[] = [];
+    let cursor = 0;
+
+    elements.forEach( slide => {
+      while ( includes( placed, survivors[ cursor ] ) ) {
+        cursor++;
+      }
+
+      const ref  = survivors[ cursor ];
+      const last = placed[ placed.length - 1 ];
+
+      if ( slide === ref ) {
+        cursor++;
+      } else if ( ref ) {
+        before( slide, ref );
+      } else if ( last && last.nextSibling ) {
+        before( slide, last.nextSibling );
+      } else {
+        append( list, slide );
+      }
+
+      placed.push( slide );
+    } );
+  }
+
+  /**
+   * Creates a slide element from the template.
+   *
+   * @param template - A template returned by the render function.
+   *
+   * @return A slide element.
+   */
+  function build( template: SlideTemplate ): HTMLElement {
+    if ( isString( template ) ) {
+      return parseHtml( template );
+    }
+
+    if ( isHTMLElement( template ) ) {
+      return template;
+    }
+
+    const slide = create( list.tagName === 'UL' || list.tagName === 'OL' ? 'li' : 'div', template.attrs );
+    forOwn( template.styles || {}, ( value, prop ) => { style( slide, prop, value ) } );
+    slide.innerHTML = template.html || '';
+
+    return slide;
   }
 
   /**
@@ -234,7 +616,7 @@ export function Slides( Splide: Splide, Components: Components, options: Options
    * @param value        - A CSS value to add.
    * @param useContainer - Optional. Determines whether to apply the rule to the container or not.
    */
-  function style( prop: string, value: string | number, useContainer?: boolean ): void {
+  function setStyle( prop: string, value: string | number, useContainer?: boolean ): void {
     forEach( Slide => { Slide.style( prop, value, useContainer ) } );
   }
 
@@ -263,22 +645,44 @@ export function Slides( Splide: Splide, Components: Components, options: Options
 
   /**
    * Returns the length of slides.
+   * In the virtual mode, the logical number of slides is returned when clones are excluded.
    *
    * @param excludeClones - Optional. Determines whether to exclude clones or not.
    *
    * @return The length of slides.
    */
   function getLength( excludeClones?: boolean ): number {
-    return excludeClones ? slides.length : Slides.length;
+    return excludeClones ? ( isVirtual() ? Components.Virtual.getLength() : slides.length ) : Slides.length;
   }
 
   /**
    * Checks if the number of slides is over than the `perPage` option, including clones.
+   * The loop slider that repeats clones always has enough slides.
    *
    * @return `true` if there are enough slides, or otherwise `false`.
    */
   function isEnough(): boolean {
-    return Slides.length > options.perPage;
+    return ( isVirtual() ? getLength( true ) : Slides.length ) > options.perPage || Components.Clones.isRepeating();
+  }
+
+  /**
+   * Asserts that slides can be changed.
+   * In the virtual mode, the Virtual component renders slides from its own pool,
+   * and changing Slide objects directly breaks the relation between them and the pool.
+   */
+  function assertMutable(): void {
+    assert( ! isVirtual(), 'Slides can not be changed in the virtual mode.' );
+  }
+
+  /**
+   * Checks if the Virtual component renders only some of slides.
+   * In the virtual mode, the number of slides is not the number of Slide objects.
+   *
+   * @return `true` if the virtual mode is enabled, or otherwise `false`.
+   */
+  function isVirtual(): boolean {
+    const { Virtual } = Components;
+    return !! Virtual && Virtual.isEnabled();
   }
 
   return {
@@ -286,14 +690,21 @@ export function Slides( Splide: Splide, Components: Components, options: Options
     destroy,
     update,
     register,
+    unregister,
     get,
     getIn,
     getAt,
     add,
     remove,
+    set,
+    move,
+    swap,
+    sort,
+    narrow,
+    build,
     forEach,
     filter,
-    style,
+    style: setStyle,
     getLength,
     isEnough,
   };
@@ -0,0 +1,101 @@
+import { EVENT_REFRESH, EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED } from '../../../constants/events';
+import { init } from '../../../test';
+import { SlideComponent } from '../Slide';
+
+
+describe( 'Slides', () => {
+  test( 'can add slides without refreshing the slider.', () => {
+    const splide   = init();
+    const { Slides } = splide.Components;
+    const Slide0   = Slides.getAt( 0 );
+    const Slide1   = Slides.getAt( 1 );
+    const refresh  = jest.fn();
+    const added    = jest.fn();
+
+    splide.on( EVENT_REFRESH, refresh );
+    splide.on( EVENT_SLIDES_ADDED, added );
+    Slides.add( [ '<li class="splide__slide">a</li>', '<li class="splide__slide">b</li>' ], 1 );
+
+    expect( refresh ).not.toHaveBeenCalled();
+    expect( added ).toHaveBeenCalledTimes( 1 );
+    expect( added.mock.calls[ 0 ][ 0 ].map( ( Slide: SlideComponent ) => Slide.index ) ).toEqual( [ 1, 2 ] );
+
+    expect( Slides.getAt( 0 ) ).toBe( Slide0 );
+    expect( Slides.getAt( 3 ) ).toBe( Slide1 );
+    expect( Slide1.index ).toBe( 3 );
+    expect( Slide1.slide.id ).toBe( `${ splide.root.id }-slide04` );
+    expect( Slide1.slide.getAttribute( 'aria-label' ) ).toBe( '4 of 12' );
+    expect( Slide0.slide.getAttribute( 'aria-label' ) ).toBe( '1 of 12' );
+    expect( splide.length ).toBe( 12 );
+    expect( Slides.get().map( Slide => Slide.index ) ).toEqual( [ 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11 ] );
+  } );
+
+  test( 'can remove slides without refreshing the slider.', () => {
+    const splide   = init();
+    const { Slides } = splide.Components;
+    const Slide2   = Slides.getAt( 2 );
+    const Slide5   = Slides.getAt( 5 );
+    const refresh  = jest.fn();
+    const removed  = jest.fn();
+
+    splide.on( EVENT_REFRESH, refresh );
+    splide.on( EVENT_SLIDES_REMOVED, removed );
+    Slides.remove( [ 0, 1 ] );
+
+    expect( refresh ).not.toHaveBeenCalled();
+    expect( removed ).toHaveBeenCalledTimes( 1 );
+    expect( removed.mock.calls[ 0 ][ 0 ].length ).toBe( 2 );
+
+    expect( Slides.getAt( 0 ) ).toBe( Slide2 );
+    expect( Slide5.index ).toBe( 3 );
+    expect( Slide5.slide.getAttribute( 'aria-label' ) ).toBe( '4 of 8' );
+    expect( splide.Components.Elements.slides.length ).toBe( 8 );
+  } );
+
+  test( 'can emit the refresh event after adding or removing slides if the refreshOnChange option is enabled.', () => {
+    const splide  = init( { refreshOnChange: true } );
+    const refresh = jest.fn();
+    const added   = jest.fn();
+
+    splide.on( EVENT_REFRESH, refresh );
+    splide.on( EVENT_SLIDES_ADDED, added );
+
+    splide.add( '<li class="splide__slide">a</li>' );
+    expect( added ).toHaveBeenCalledTimes( 1 );
+    expect( refresh ).toHaveBeenCalledTimes( 1 );
+    expect( splide.length ).toBe( 11 );
+
+    splide.remove( 0 );
+    expect( refresh ).toHaveBeenCalledTimes( 2 );
+    expect( splide.length ).toBe( 10 );
+    expect( splide.Components.Slides.get().map( Slide => Slide.index ) ).toEqual( [ 0, 1, 2, 3, 4, 5, 6, 7, 8, 9 ] );
+  } );
+
+  test( 'can regenerate clones without recreating regular slides.', () => {
+    const splide   = init( { type: 'loop', perPage: 2 } );
+    const { Slides } = splide.Components;
+    const Slide0   = Slides.getAt( 0 );
+
+    Slides.add( '<li class="splide__slide">new</li>' );
+
+    const clones = Slides.get().filter( Slide => Slide.isClone );
+    const last   = clones[ clones.length - 1 ];
+
+    expect( Slides.getAt( 0 ) ).toBe( Slide0 );
+    expect( Slides.getLength( true ) ).toBe( 11 );
+    expect( Slides.getAt( -1 ).slide.textContent ).toBe( 'new' );
+    expect( Slides.getAt( -1 ).slideIndex ).toBe( 10 );
+    expect( last.index ).toBe( 11 + clones.length / 2 - 1 );
+    expect( splide.Components.Elements.list.lastElementChild ).toBe( last.slide );
+  } );
+
+  test( 'should keep the pagination in sync.', () => {
+    const splide = init( { pagination: true } );
+
+    splide.add( '<li class="splide__slide">new</li>' );
+    expect( splide.Components.Pagination.items.length ).toBe( 11 );
+
+    splide.remove( [ 0, 1, 2 ] );
+    expect( splide.Components.Pagination.items.length ).toBe( 8 );
+  } );
+} );
@@ -0,0 +1,109 @@
+import { CLASS_FILTERED } from '../../../constants/classes';
+import { EVENT_SLIDES_ADDED, EVENT_SLIDES_REMOVED } from '../../../constants/events';
+import { init } from '../../../test';
+
+
+describe( 'Slides#narrow()', () => {
+  test( 'can hide slides that do not match without removing them from the DOM.', () => {
+    const splide = init( { speed: 0 } );
+    const { list } = splide.Components.Elements;
+    const slides   = splide.Components.Elements.slides.slice();
+
+    splide.filter( [ 1, 3, 5 ] );
+
+    expect( splide.length ).toBe( 3 );
+    expect( splide.Components.Elements.slides ).toEqual( [ slides[ 1 ], slides[ 3 ], slides[ 5 ] ] );
+    expect( list.children.length ).toBe( 10 );
+    expect( slides[ 0 ].classList.contains( CLASS_FILTERED ) ).toBe( true );
+    expect( slides[ 0 ].style.display ).toBe( 'none' );
+    expect( slides[ 1 ].style.display ).toBe( '' );
+  } );
+
+  test( 'can update indices and labels of shown slides.', () => {
+    const splide = init( { speed: 0 } );
+    const slides = splide.Components.Elements.slides.slice();
+
+    splide.filter( Slide => Slide.index % 2 === 0 );
+
+    splide.Components.Slides.forEach( ( Slide, index ) => {
+      expect( Slide.index ).toBe( index );
+      expect( Slide.slide.getAttribute( 'aria-label' ) ).toBe( `${ index + 1 } of 5` );
+    } );
+
+    expect( slides[ 1 ].getAttribute( 'aria-label' ) ).toBeNull();
+  } );
+
+  test( 'can show all slides again by null.', () => {
+    const splide = init( { speed: 0 } );
+    const slides = splide.Components.Elements.slides.slice();
+
+    splide.filter( [ 2, 3 ] );
+    splide.filter( null );
+
+    expect( splide.length ).toBe( 10 );
+    expect( splide.Components.Elements.slides ).toEqual( slides );
+    expect( slides[ 0 ].classList.contains( CLASS_FILTERED ) ).toBe( false );
+    expect( slides[ 0 ].style.display ).toBe( '' );
+    expect( slides[ 9 ].getAttribute( 'aria-label' ) ).toBe( '10 of 10' );
+  } );
+
+  test( 'should apply the matcher to all slides including hidden ones.', () => {
+    const splide = init( { speed: 0 } );
+    const slides = splide.Components.Elements.slides.slice();
+
+    splide.filter( [ 0, 1 ] );
+    splide.filter( [ 8, 9 ] );
+
+    expect( splide.Components.Elements.slides ).toEqual( [ slides[ 8 ], slides[ 9 ] ] );
+  } );
+
+  test( 'should keep the active slide if it is still shown.', () => {
+    const splide = init( { speed: 0 } );
+    const slides = splide.Components.Elements.slides.slice();
+
+    splide.go( 4 );
+    splide.filter( [ 2, 4, 6 ] );
+
+    expect( splide.index ).toBe( 1 );
+    expect( splide.Components.Slides.getAt( splide.index ).slide ).toBe( slides[ 4 ] );
+  } );
+
+  test( 'should keep slides hidden after refresh.', () => {
+    const splide = init( { speed: 0 } );
+
+    splide.filter( [ 1, 2 ] );
+    splide.refresh();
+
+    expect( splide.length ).toBe( 2 );
+  } );
+
+  test( 'can restore hidden slides when the slider is destroyed.', () => {
+    const splide = init( { speed: 0 } );
+    const slides = splide.Components.Elements.slides.slice();
+
+    splide.filter( [ 1, 2 ] );
+    splide.destroy();
+
+    expect( slides[ 0 ].classList.contains( CLASS_FILTERED ) ).toBe( false );
+    expect( slides[ 0 ].style.display ).toBe( '' );
+  } );
+
+  test( 'can emit events for hidden and shown slides.', () => {
+    const splide  = init( { speed: 0 } );
+    const removed = jest.fn();
+    const added   = jest.fn();
+
+    splide.on( EVENT_SLIDES_REMOVED, removed );
+    splide.on( EVENT_SLIDES_ADDED, added );
+
+    splide.filter( '.splide__slide:not(:first-child)' );
+
+    expect( removed ).toHaveBeenCalledTimes( 1 );
+    expect( added ).not.toHaveBeenCalled();
+
+    splide.filter( null );
+
+    expect( removed ).toHaveBeenCalledTimes( 1 );
+    expect( added ).toHaveBeenCalledTimes( 1 );
+  } );
+} );
@@ -0,0 +1,101 @@
+import { EVENT_SLIDES_MOVED } from '../../../constants/events';
+import { init } from '../../../test';
+import { SlideComponent } from '../Slide';
+
+
+describe( 'Slides#move(), Slides#swap() and Slides#sort()', () => {
+  test( 'can move a slide to a new position.', () => {
+    const splide = init( { speed: 0 } );
+    const { slides } = splide.Components.Elements;
+    const slide0 = slides[ 0 ];
+    const slide1 = slides[ 1 ];
+
+    splide.moveSlide( 0, 3 );
+
+    expect( slides[ 3 ] ).toBe( slide0 );
+    expect( slides[ 0 ] ).toBe( slide1 );
+    expect( splide.Components.Elements.list.children[ 3 ] ).toBe( slide0 );
+    expect( splide.Components.Slides.getAt( 3 ).slide ).toBe( slide0 );
+  } );
+
+  test( 'can swap 2 slides.', () => {
+    const splide = init( { speed: 0 } );
+    const { slides } = splide.Components.Elements;
+    const slide2 = slides[ 2 ];
+    const slide5 = slides[ 5 ];
+
+    splide.swapSlides( 2, 5 );
+
+    expect( slides[ 2 ] ).toBe( slide5 );
+    expect( slides[ 5 ] ).toBe( slide2 );
+    expect( splide.Components.Elements.list.children[ 2 ] ).toBe( slide5 );
+    expect( splide.Components.Elements.list.children[ 5 ] ).toBe( slide2 );
+  } );
+
+  test( 'can sort slides by the comparator function.', () => {
+    const splide = init( { speed: 0 } );
+    const reversed = splide.Components.Elements.slides.slice().reverse();
+
+    splide.sortSlides( ( Slide1, Slide2 ) => Slide2.index - Slide1.index );
+
+    expect( splide.Components.Elements.slides ).toEqual( reversed );
+    expect( Array.from( splide.Components.Elements.list.children ) ).toEqual( reversed );
+  } );
+
+  test( 'can update indices and labels of slides.', () => {
+    const splide = init( { speed: 0 } );
+    const { slides } = splide.Components.Elements;
+    const slide0 = slides[ 0 ];
+
+    splide.moveSlide( 0, 4 );
+
+    splide.Components.Slides.forEach( Slide => {
+      expect( Slide.index ).toBe( slides.indexOf( Slide.slide ) );
+      expect( Slide.slide.getAttribute( 'aria-label' ) ).toBe( `${ Slide.index + 1 } of 10` );
+    } );
+
+    expect( slide0.getAttribute( 'aria-label' ) ).toBe( '5 of 10' );
+  } );
+
+  test( 'should keep the active slide.', () => {
+    const splide = init( { speed: 0 } );
+    const { slides } = splide.Components.Elements;
+    const slide2 = slides[ 2 ];
+
+    splide.go( 2 );
+    splide.moveSlide( 2, 7 );
+
+    expect( splide.index ).toBe( 7 );
+    expect( slides[ 7 ] ).toBe( slide2 );
+
+    splide.moveSlide( 0, 9 );
+
+    expect( splide.index ).toBe( 6 );
+    expect( slides[ 6 ] ).toBe( slide2 );
+  } );
+
+  test( 'can emit the event with moved slides.', () => {
+    const splide   = init( { speed: 0 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_SLIDES_MOVED, callback );
+    splide.swapSlides( 1, 3 );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( callback.mock.calls[ 0 ][ 0 ].map( ( Slide: SlideComponent ) => Slide.index ).sort() ).toEqual( [ 1, 3 ] );
+  } );
+
+  test( 'should do nothing if indices are invalid or same.', () => {
+    const splide   = init( { speed: 0 } );
+    const callback = jest.fn();
+    const slides   = splide.Components.Elements.slides.slice();
+
+    splide.on( EVENT_SLIDES_MOVED, callback );
+    splide.moveSlide( 1, 1 );
+    splide.moveSlide( 1, 10 );
+    splide.swapSlides( -1, 2 );
+
+    expect( callback ).not.toHaveBeenCalled();
+    expect( splide.Components.Elements.slides ).toEqual( slides );
+  } );
+} );
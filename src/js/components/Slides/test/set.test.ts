@@ -0,0 +1,128 @@
+import { EVENT_REFRESH, EVENT_SLIDES_ADDED, EVENT_SLIDES_MOVED, EVENT_SLIDES_REMOVED } from '../../../constants/events';
+import { KEY_DATA_ATTRIBUTE } from '../../../constants/project';
+import { init } from '../../../test';
+import { SetSlidesOptions } from '../Slides';
+
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const setOptions: SetSlidesOptions<Item> = {
+  key   : item => item.id,
+  render: item => ( { html: item.name, attrs: { 'data-name': item.name }, styles: { color: 'red' } } ),
+};
+
+/**
+ * Returns items with the specified IDs.
+ *
+ * @param ids - IDs of items.
+ *
+ * @return An array with items.
+ */
+function itemsOf( ...ids: number[] ): Item[] {
+  return ids.map( id => ( { id, name: `item${ id }` } ) );
+}
+
+describe( 'Slides#set()', () => {
+  test( 'can render slides for the provided items.', () => {
+    const splide = init();
+
+    splide.setSlides( itemsOf( 1, 2, 3 ), setOptions );
+
+    const { slides } = splide.Components.Elements;
+
+    expect( splide.length ).toBe( 3 );
+    expect( slides.map( slide => slide.textContent ) ).toEqual( [ 'item1', 'item2', 'item3' ] );
+    expect( slides[ 0 ].tagName ).toBe( 'LI' );
+    expect( slides[ 0 ].getAttribute( KEY_DATA_ATTRIBUTE ) ).toBe( '1' );
+    expect( slides[ 0 ].getAttribute( 'data-name' ) ).toBe( 'item1' );
+    expect( slides[ 0 ].style.color ).toBe( 'red' );
+    expect( slides[ 0 ].classList.contains( 'splide__slide' ) ).toBe( true );
+  } );
+
+  test( 'can reuse slides by keys and only change the DOM that is different.', () => {
+    const splide = init();
+
+    splide.setSlides( itemsOf( 1, 2, 3, 4 ), setOptions );
+
+    const [ slide1, slide2, slide3, slide4 ] = splide.Components.Elements.slides;
+    const { list } = splide.Components.Elements;
+    const Slide2   = splide.Components.Slides.getAt( 1 );
+    const refresh  = jest.fn();
+    const added    = jest.fn();
+    const removed  = jest.fn();
+    const moved    = jest.fn();
+    const render   = jest.fn( setOptions.render );
+
+    splide.on( EVENT_REFRESH, refresh );
+    splide.on( EVENT_SLIDES_ADDED, added );
+    splide.on( EVENT_SLIDES_REMOVED, removed );
+    splide.on( EVENT_SLIDES_MOVED, moved );
+
+    splide.setSlides( itemsOf( 3, 5, 1, 2 ), { key: setOptions.key, render } );
+
+    const { slides } = splide.Components.Elements;
+
+    expect( slides.map( slide => slide.textContent ) ).toEqual( [ 'item3', 'item5', 'item1', 'item2' ] );
+    expect( slides[ 0 ] ).toBe( slide3 );
+    expect( slides[ 2 ] ).toBe( slide1 );
+    expect( slides[ 3 ] ).toBe( slide2 );
+    expect( slide4.parentElement ).toBeNull();
+    expect( Array.prototype.slice.call( list.children ) ).toEqual( slides );
+
+    expect( render ).toHaveBeenCalledTimes( 1 );
+    expect( Slide2.index ).toBe( 3 );
+    expect( splide.Components.Slides.getAt( 3 ) ).toBe( Slide2 );
+
+    expect( refresh ).not.toHaveBeenCalled();
+    expect( added ).toHaveBeenCalledTimes( 1 );
+    expect( removed ).toHaveBeenCalledTimes( 1 );
+    expect( moved ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'can keep the current slide active if it still exists.', () => {
+    const splide = init( { speed: 0 } );
+
+    splide.setSlides( itemsOf( 1, 2, 3, 4, 5 ), setOptions );
+    splide.go( 1 );
+
+    const active = splide.Components.Elements.slides[ 1 ];
+
+    splide.setSlides( itemsOf( 5, 4, 3, 2, 1 ), setOptions );
+
+    expect( splide.index ).toBe( 3 );
+    expect( active.classList.contains( 'is-active' ) ).toBe( true );
+
+    splide.setSlides( itemsOf( 5, 4 ), setOptions );
+
+    expect( splide.index ).toBe( 1 );
+  } );
+
+  test( 'can reuse slides rendered by the server if they have keys.', () => {
+    const splide = init( {}, { length: 3 } );
+    const [ slide1 ] = splide.Components.Elements.slides;
+
+    slide1.setAttribute( KEY_DATA_ATTRIBUTE, '1' );
+    splide.setSlides( itemsOf( 2, 1 ), setOptions );
+
+    expect( splide.Components.Elements.slides[ 1 ] ).toBe( slide1 );
+    expect( splide.length ).toBe( 2 );
+  } );
+
+  test( 'can accept an HTML string or an element returned by the render function.', () => {
+    const splide = init();
+    const elm    = document.createElement( 'li' );
+
+    splide.setSlides( [ 1, 2 ], {
+      key   : item => item,
+      render: item => item === 1 ? '<li class="from-html">1</li>' : elm,
+    } );
+
+    const { slides } = splide.Components.Elements;
+
+    expect( slides[ 0 ].classList.contains( 'from-html' ) ).toBe( true );
+    expect( slides[ 1 ] ).toBe( elm );
+  } );
+} );
@@ -0,0 +1,88 @@
+import {
+  EVENT_AUTOPLAY_PAUSE,
+  EVENT_AUTOPLAY_PLAY,
+  EVENT_MOVE,
+  EVENT_MOVED,
+  EVENT_REFRESH,
+  EVENT_RESIZED,
+  EVENT_SCROLLED,
+  EVENT_SLIDES_ADDED,
+  EVENT_SLIDES_MOVED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_UPDATED,
+} from '../../constants/events';
+import { LOOP } from '../../constants/types';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components } from '../../types';
+import { min } from '../../utils';
+
+
+/**
+ * The interface for the Snapshot component.
+ *
+ * @since 3.7.0
+ */
+export interface SnapshotComponent extends BaseComponent {
+  update(): void;
+}
+
+/**
+ * The component for deriving the snapshot of the slider state and writing it to the store of the Splide instance.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ *
+ * @return A Snapshot component object.
+ */
+export function Snapshot( Splide: Splide, Components: Components ): SnapshotComponent {
+  const { on } = EventInterface( Splide );
+  const { Controller } = Components;
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    update();
+
+    on( [
+      EVENT_MOVE,
+      EVENT_MOVED,
+      EVENT_SCROLLED,
+      EVENT_UPDATED,
+      EVENT_REFRESH,
+      EVENT_SLIDES_ADDED,
+      EVENT_SLIDES_REMOVED,
+      EVENT_SLIDES_MOVED,
+      EVENT_RESIZED,
+      EVENT_AUTOPLAY_PLAY,
+      EVENT_AUTOPLAY_PAUSE,
+    ], update );
+  }
+
+  /**
+   * Computes the snapshot and writes it to the store.
+   * The store notifies subscribers only when some values change.
+   */
+  function update(): void {
+    const index  = Controller.getIndex();
+    const end    = Controller.getEnd();
+    const isLoop = Splide.is( LOOP );
+
+    Splide.store.set( {
+      index,
+      page       : Controller.toPage( index ),
+      isBeginning: ! isLoop && index === 0,
+      isEnd      : ! isLoop && index >= end,
+      progress   : end ? min( index / end, 1 ) : 0,
+      playing    : ! Components.Autoplay.isPaused(),
+    } );
+  }
+
+  return {
+    mount,
+    update,
+  };
+}
@@ -0,0 +1,96 @@
+import { init } from '../../../test';
+
+
+describe( 'Snapshot', () => {
+  test( 'can provide the snapshot of the slider state.', () => {
+    const splide = init( { speed: 0, perPage: 2 } );
+
+    expect( splide.getSnapshot() ).toEqual( {
+      index      : 0,
+      page       : 0,
+      isBeginning: true,
+      isEnd      : false,
+      progress   : 0,
+      playing    : false,
+    } );
+
+    splide.go( 4 );
+
+    expect( splide.getSnapshot() ).toEqual( {
+      index      : 4,
+      page       : 2,
+      isBeginning: false,
+      isEnd      : false,
+      progress   : 0.5,
+      playing    : false,
+    } );
+
+    splide.go( 8 );
+    expect( splide.getSnapshot().isEnd ).toBe( true );
+    expect( splide.getSnapshot().progress ).toBe( 1 );
+  } );
+
+  test( 'can provide the initial snapshot before the slider is mounted.', () => {
+    const splide   = init( { start: 3 }, { mount: false } );
+    const snapshot = splide.getSnapshot();
+    const listener = jest.fn();
+
+    expect( snapshot ).toEqual( {
+      index      : 0,
+      page       : 0,
+      isBeginning: true,
+      isEnd      : false,
+      progress   : 0,
+      playing    : false,
+    } );
+
+    expect( Object.isFrozen( snapshot ) ).toBe( true );
+    expect( splide.getSnapshot() ).toBe( snapshot );
+
+    splide.subscribe( listener );
+    splide.mount();
+
+    expect( listener ).toHaveBeenCalled();
+    expect( splide.getSnapshot().index ).toBe( 3 );
+  } );
+
+  test( 'can return the same immutable object until the state changes.', () => {
+    const splide   = init( { speed: 0 } );
+    const snapshot = splide.getSnapshot();
+
+    splide.refresh();
+    expect( splide.getSnapshot() ).toBe( snapshot );
+    expect( Object.isFrozen( snapshot ) ).toBe( true );
+
+    splide.go( 1 );
+    expect( splide.getSnapshot() ).not.toBe( snapshot );
+  } );
+
+  test( 'can notify subscribers only when the state changes.', () => {
+    const splide   = init( { speed: 0, autoplay: true } );
+    const listener = jest.fn();
+    const { subscribe, getSnapshot } = splide.store;
+
+    const unsubscribe = subscribe( listener );
+
+    splide.go( 2 );
+    expect( listener ).toHaveBeenCalledTimes( 1 );
+
+    splide.refresh();
+    expect( listener ).toHaveBeenCalledTimes( 1 );
+
+    splide.Components.Autoplay.pause();
+    expect( listener ).toHaveBeenCalledTimes( 2 );
+    expect( getSnapshot().playing ).toBe( false );
+
+    unsubscribe();
+    splide.go( 3 );
+    expect( listener ).toHaveBeenCalledTimes( 2 );
+  } );
+
+  test( 'should treat the loop slider as it never reaches edges.', () => {
+    const splide = init( { type: 'loop', speed: 0 } );
+    expect( splide.getSnapshot().isBeginning ).toBe( false );
+    expect( splide.getSnapshot().isEnd ).toBe( false );
+  } );
+} );
@@ -0,0 +1,236 @@
+import { CLASS_ERROR, CLASS_LOADING } from '../../constants/classes';
+import {
+  EVENT_MOVED,
+  EVENT_REFRESH,
+  EVENT_SCROLLED,
+  EVENT_SLIDES_REMOVED,
+  EVENT_SLIDES_RENDERED,
+  EVENT_SOURCE_ERROR,
+  EVENT_SOURCE_LOADED,
+} from '../../constants/events';
+import { LOOP } from '../../constants/types';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { SlideContent } from '../../renderer/types/types';
+import { BaseComponent, Components, Options } from '../../types';
+import { append, create, display, includes, remove, setAttribute, toggleClass } from '../../utils';
+import { SOURCE_LIMIT, SOURCE_THRESHOLD } from './constants';
+
+
+/**
+ * The interface for the Source component.
+ *
+ * @since 3.7.0
+ */
+export interface SourceComponent extends BaseComponent {
+  load(): void;
+  hasMore(): boolean;
+}
+
+/**
+ * The component for appending slides provided by the `source` function as the user approaches the end.
+ * While more slides are available, a placeholder slide is placed after the last slide.
+ * The placeholder is registered as a clone so that it is laid out but not counted as a slide.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return A Source component object.
+ */
+export function Source( Splide: Splide, Components: Components, options: Options ): SourceComponent {
+  const { on, emit, bind } = EventInterface( Splide );
+  const { Slides } = Components;
+  const { list } = Components.Elements;
+  const { classes, i18n } = options;
+
+  /**
+   * The placeholder slide element.
+   */
+  let placeholder: HTMLElement;
+
+  /**
+   * The spinner element in the placeholder.
+   */
+  let spinner: HTMLElement;
+
+  /**
+   * The button to retry loading in the placeholder.
+   */
+  let button: HTMLButtonElement;
+
+  /**
+   * The number of contents already provided, including slides in the markup.
+   */
+  let offset: number;
+
+  /**
+   * Indicates whether the `source` function is being called or not.
+   */
+  let loading: boolean;
+
+  /**
+   * Indicates whether the last request failed or not.
+   */
+  let failed: boolean;
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    if ( options.source && ! Splide.is( LOOP ) && ! Components.Virtual.isEnabled() ) {
+      offset      = Splide.length;
+      placeholder = Slides.build( { attrs: { class: `${ classes.slide } ${ classes.placeholder }` } } );
+      spinner     = create( 'span', classes.spinner, placeholder );
+      button      = create( 'button', { class: classes.retry, type: 'button' }, placeholder );
+
+      button.textContent = i18n.retry;
+      bind( button, 'click', load );
+
+      append( list, placeholder );
+      attach();
+
+      on( EVENT_REFRESH, () => { placeholder && attach() } );
+      on( [ EVENT_MOVED, EVENT_SCROLLED ], check );
+      check();
+    }
+  }
+
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    remove( placeholder );
+    placeholder = null;
+  }
+
+  /**
+   * Registers the placeholder as a Slide object after the last slide, and updates its status.
+   * The object is recreated since its index changes whenever slides are added.
+   *
+   * @param index - Optional. An index for the placeholder. If omitted, uses the current number of slides.
+   */
+  function attach( index = Splide.length ): void {
+    Slides.unregister( [ placeholder ] );
+    Slides.register( placeholder, index, index );
+    setAttribute( placeholder, 'aria-busy', loading || null );
+    toggleClass( placeholder, CLASS_LOADING, loading );
+    toggleClass( placeholder, CLASS_ERROR, failed );
+    display( spinner, failed ? 'none' : '' );
+    display( button, failed ? '' : 'none' );
+    emit( EVENT_SLIDES_RENDERED, Slides.filter( Slide => Slide.slide === placeholder ) );
+  }
+
+  /**
+   * Starts loading slides if the active index is close to the end.
+   * After the last request failed, this retries it on the next move as the retry button does.
+   */
+  function check(): void {
+    if ( Splide.index >= Splide.length - options.perPage * SOURCE_THRESHOLD ) {
+      load();
+    }
+  }
+
+  /**
+   * Requests contents from the `source` function and appends slides for them.
+   * An error thrown by the function, or while appending slides, is handled as a failure of the request.
+   */
+  function load(): void {
+    if ( hasMore() && ! loading ) {
+      const limit = options.sourceLimit || SOURCE_LIMIT;
+
+      loading = true;
+      failed  = false;
+      attach();
+
+      new Promise<SlideContent[]>( resolve => { resolve( options.source( offset, limit ) ) } )
+        .then( contents => { onLoad( contents, limit ) } )
+        .catch( onError );
+    }
+  }
+
+  /**
+   * Called when the `source` function provides contents.
+   * If the function returns fewer contents than the limit, the placeholder is removed,
+   * and the slider moves back to the end if the active index is left on the removed placeholder.
+   *
+   * @param contents - Provided contents.
+   * @param limit    - The number of contents requested.
+   */
+  function onLoad( contents: SlideContent[], limit: number ): void {
+    loading = false;
+
+    if ( placeholder ) {
+      const elements = contents.map( content => Slides.build( content ) );
+      const more     = contents.length >= limit;
+      const Removed  = Slides.filter( Slide => Slide.slide === placeholder );
+
+      offset += contents.length;
+
+      if ( more ) {
+        attach( Splide.length + elements.length );
+      } else {
+        Slides.unregister( [ placeholder ] );
+        destroy();
+      }
+
+      if ( elements.length ) {
+        Slides.add( elements );
+      }
+
+      if ( ! more ) {
+        restore();
+        elements.length || emit( EVENT_SLIDES_REMOVED, Removed );
+      }
+
+      emit( EVENT_SOURCE_LOADED, Slides.filter( Slide => includes( elements, Slide.slide ) ) );
+      more && check();
+    }
+  }
+
+  /**
+   * Called when the request fails.
+   * The loading state is always reset so that the user can retry it.
+   *
+   * @param error - An error thrown by the `source` function, a reason of the rejection, or an error while appending slides.
+   */
+  function onError( error: unknown ): void {
+    loading = false;
+    failed  = true;
+
+    if ( placeholder ) {
+      attach();
+      emit( EVENT_SOURCE_ERROR, error );
+    }
+  }
+
+  /**
+   * Moves the slider back to the end index if the active index is beyond it, for example, on the removed placeholder.
+   * This must be done before other components clamp the index without moving the slider.
+   */
+  function restore(): void {
+    const end = Components.Controller.getEnd();
+
+    if ( Splide.index > end ) {
+      Splide.go( end );
+    }
+  }
+
+  /**
+   * Checks if more slides are available or not.
+   *
+   * @return `true` if the `source` function may provide more slides, or otherwise `false`.
+   */
+  function hasMore(): boolean {
+    return !! placeholder;
+  }
+
+  return {
+    mount,
+    destroy,
+    load,
+    hasMore,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * The default number of slides to request from the `source` function at once.
+ *
+ * @since 3.7.0
+ */
+export const SOURCE_LIMIT = 10;
+
+/**
+ * Starts loading slides when the active index is within this number of pages from the end.
+ *
+ * @since 3.7.0
+ */
+export const SOURCE_THRESHOLD = 2;
@@ -0,0 +1,249 @@
+import { CLASS_ERROR, CLASS_PLACEHOLDER, CLASS_RETRY } from '../../../constants/classes';
+import { EVENT_MOVED, EVENT_SOURCE_ERROR, EVENT_SOURCE_LOADED } from '../../../constants/events';
+import { SlideContent } from '../../../renderer/types/types';
+import { fire, init, wait } from '../../../test';
+
+
+/**
+ * Returns a source function that provides `total` contents at most.
+ *
+ * @param total - The total number of contents.
+ *
+ * @return A source function.
+ */
+function sourceOf( total: number ): jest.Mock<Promise<SlideContent[]>, [ number, number ]> {
+  return jest.fn( ( offset: number, limit: number ) => {
+    const contents: SlideContent[] = [];
+
+    for ( let i = offset; i < Math.min( offset + limit, total ); i++ ) {
+      contents.push( { html: `${ i }` } );
+    }
+
+    return Promise.resolve( contents );
+  } );
+}
+
+describe( 'Source', () => {
+  test( 'can load slides after the slides in the markup.', async () => {
+    const source = sourceOf( 100 );
+    const splide = init( { speed: 0, source, sourceLimit: 3 }, { length: 2 } );
+
+    expect( source ).toHaveBeenCalledWith( 2, 3 );
+
+    await wait();
+
+    expect( splide.length ).toBe( 5 );
+    expect( splide.Components.Slides.getAt( 4 ).slide.textContent ).toBe( '4' );
+  } );
+
+  test( 'can append the placeholder that is not counted as a slide.', async () => {
+    const splide = init( { speed: 0, source: sourceOf( 100 ), sourceLimit: 3 }, { length: 2 } );
+    const { list } = splide.Components.Elements;
+
+    await wait();
+
+    const placeholder = list.lastElementChild;
+
+    expect( placeholder.classList.contains( CLASS_PLACEHOLDER ) ).toBe( true );
+    expect( splide.Components.Slides.getAt( 4 ).slide.getAttribute( 'aria-label' ) ).toBe( '5 of 5' );
+    expect( splide.Components.Slides.getAt( 5 ).slide ).toBe( placeholder );
+    expect( splide.Components.Pagination.items.length ).toBe( 5 );
+  } );
+
+  test( 'should not disable the next arrow while more slides are available.', async () => {
+    const splide = init( { speed: 0, source: sourceOf( 100 ), sourceLimit: 3 }, { length: 2, arrows: true } );
+    const { next } = splide.Components.Arrows.arrows;
+
+    await wait();
+
+    expect( splide.Components.Controller.getEnd() ).toBe( 5 );
+
+    splide.go( 5 );
+
+    expect( splide.index ).toBe( 5 );
+    expect( next.disabled ).toBe( false );
+  } );
+
+  test( 'can load more slides when the slider approaches the end.', async () => {
+    const source = sourceOf( 100 );
+    const splide = init( { speed: 0, source, sourceLimit: 3 }, { length: 2 } );
+
+    await wait();
+
+    splide.go( 3 );
+
+    expect( source ).toHaveBeenLastCalledWith( 5, 3 );
+
+    await wait();
+
+    expect( splide.length ).toBe( 8 );
+    expect( splide.Components.Slides.getAt( 5 ).slide.textContent ).toBe( '5' );
+  } );
+
+  test( 'can remove the placeholder if no more slides are available.', async () => {
+    const splide = init( { speed: 0, source: sourceOf( 4 ), sourceLimit: 3 }, { length: 2, arrows: true } );
+
+    await wait();
+
+    expect( splide.length ).toBe( 4 );
+    expect( splide.Components.Source.hasMore() ).toBe( false );
+    expect( splide.Components.Elements.list.querySelector( `.${ CLASS_PLACEHOLDER }` ) ).toBeNull();
+    expect( splide.Components.Controller.getEnd() ).toBe( 3 );
+
+    splide.go( 3 );
+
+    expect( splide.Components.Arrows.arrows.next.disabled ).toBe( true );
+  } );
+
+  test( 'can retry loading after an error.', async () => {
+    const source = jest.fn( () => Promise.reject( new Error() ) );
+    const splide = init( { speed: 0, source }, { length: 2 } );
+    const placeholder = splide.Components.Elements.list.lastElementChild;
+
+    await wait();
+
+    expect( placeholder.classList.contains( CLASS_ERROR ) ).toBe( true );
+
+    fire( placeholder.querySelector( `.${ CLASS_RETRY }` ), 'click' );
+
+    expect( source ).toHaveBeenCalledTimes( 2 );
+    expect( placeholder.classList.contains( CLASS_ERROR ) ).toBe( false );
+
+    await wait();
+    splide.go( 1 );
+
+    expect( source ).toHaveBeenCalledTimes( 3 );
+  } );
+
+  test( 'can recover from the source function that throws an error.', async () => {
+    const source = jest.fn( () => { throw new Error() } );
+    const splide = init( { speed: 0, source }, { length: 2, arrows: true } );
+    const placeholder = splide.Components.Elements.list.lastElementChild;
+
+    await wait();
+
+    expect( placeholder.classList.contains( CLASS_ERROR ) ).toBe( true );
+    expect( placeholder.getAttribute( 'aria-busy' ) ).toBeNull();
+
+    fire( placeholder.querySelector( `.${ CLASS_RETRY }` ), 'click' );
+    expect( source ).toHaveBeenCalledTimes( 2 );
+  } );
+
+  test( 'can recover from the rejected promise.', async () => {
+    const source = jest.fn()
+      .mockReturnValueOnce( Promise.reject( new Error() ) )
+      .mockReturnValue( Promise.resolve( [ { html: 'loaded' } ] ) );
+
+    const splide = init( { speed: 0, source, sourceLimit: 3 }, { length: 2 } );
+    const placeholder = splide.Components.Elements.list.lastElementChild;
+
+    await wait();
+
+    expect( placeholder.classList.contains( CLASS_ERROR ) ).toBe( true );
+
+    fire( placeholder.querySelector( `.${ CLASS_RETRY }` ), 'click' );
+    await wait();
+
+    expect( splide.length ).toBe( 3 );
+    expect( splide.Components.Source.hasMore() ).toBe( false );
+  } );
+
+  test( 'can handle an error while appending slides as a failure.', async () => {
+    const splide = init( { speed: 0, source: sourceOf( 100 ), sourceLimit: 3 }, { length: 2 } );
+    const placeholder = splide.Components.Elements.list.lastElementChild;
+
+    jest.spyOn( splide.Components.Slides, 'build' ).mockImplementation( () => { throw new Error() } );
+
+    await wait();
+
+    expect( placeholder.classList.contains( CLASS_ERROR ) ).toBe( true );
+    expect( splide.Components.Source.hasMore() ).toBe( true );
+  } );
+
+  test( 'can move back to the last slide if the active placeholder is removed by the empty page.', async () => {
+    const source = jest.fn()
+      .mockReturnValueOnce( Promise.resolve( [ { html: '2' }, { html: '3' }, { html: '4' } ] ) )
+      .mockReturnValueOnce( Promise.resolve( [] ) );
+
+    const splide = init( { speed: 0, source, sourceLimit: 3 }, { length: 2 } );
+    const moved  = jest.fn();
+
+    await wait();
+
+    splide.go( 5 );
+    splide.on( EVENT_MOVED, moved );
+
+    expect( source ).toHaveBeenCalledTimes( 2 );
+
+    await wait();
+
+    expect( splide.Components.Source.hasMore() ).toBe( false );
+    expect( splide.index ).toBe( 4 );
+    expect( moved ).toHaveBeenCalledWith( 4, 5, 4 );
+    expect( splide.Components.Slides.getAt( 4 ).slide.classList.contains( 'is-active' ) ).toBe( true );
+  } );
+
+  test( 'can keep the active index on the slide that replaces the placeholder by the short page.', async () => {
+    const source = jest.fn()
+      .mockReturnValueOnce( Promise.resolve( [ { html: '2' }, { html: '3' }, { html: '4' } ] ) )
+      .mockReturnValueOnce( Promise.resolve( [ { html: '5' } ] ) );
+
+    const splide = init( { speed: 0, source, sourceLimit: 3 }, { length: 2 } );
+
+    await wait();
+
+    splide.go( 5 );
+
+    await wait();
+
+    expect( splide.Components.Source.hasMore() ).toBe( false );
+    expect( splide.length ).toBe( 6 );
+    expect( splide.index ).toBe( 5 );
+    expect( splide.Components.Controller.getEnd() ).toBe( 5 );
+    expect( splide.Components.Slides.getAt( 5 ).slide.textContent ).toBe( '5' );
+    expect( splide.Components.Slides.getAt( 5 ).slide.classList.contains( 'is-active' ) ).toBe( true );
+  } );
+
+  test( 'can emit the error event and retry on the next move if the promise is rejected on the placeholder.', async () => {
+    const error  = new Error();
+    const source = jest.fn()
+      .mockReturnValueOnce( Promise.resolve( [ { html: '2' }, { html: '3' }, { html: '4' } ] ) )
+      .mockImplementationOnce( () => Promise.reject( error ) )
+      .mockReturnValue( Promise.resolve( [] ) );
+
+    const splide   = init( { speed: 0, source, sourceLimit: 3 }, { length: 2 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_SOURCE_ERROR, callback );
+
+    await wait();
+
+    splide.go( 5 );
+
+    await wait();
+
+    expect( callback ).toHaveBeenCalledWith( error );
+    expect( splide.index ).toBe( 5 );
+    expect( splide.Components.Source.hasMore() ).toBe( true );
+
+    splide.go( 4 );
+    expect( source ).toHaveBeenCalledTimes( 3 );
+
+    await wait();
+
+    expect( splide.Components.Source.hasMore() ).toBe( false );
+    expect( splide.index ).toBe( 4 );
+  } );
+
+  test( 'can emit the event with loaded slides.', async () => {
+    const splide   = init( { speed: 0, source: sourceOf( 100 ), sourceLimit: 3 }, { length: 2 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_SOURCE_LOADED, callback );
+
+    await wait();
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( callback.mock.calls[ 0 ][ 0 ].length ).toBe( 3 );
+  } );
+} );
@@ -0,0 +1,278 @@
+import {
+  EVENT_DRAGGING,
+  EVENT_MOVE,
+  EVENT_MOVED,
+  EVENT_REFRESH,
+  EVENT_RESIZED,
+  EVENT_SCROLLED,
+  EVENT_SLIDES_RENDERED,
+  EVENT_UPDATED,
+} from '../../constants/events';
+import { SLIDE } from '../../constants/types';
+import { EventInterface } from '../../constructors';
+import { Splide } from '../../core/Splide/Splide';
+import { BaseComponent, Components, Options } from '../../types';
+import {
+  abs,
+  addClass,
+  append,
+  before,
+  ceil,
+  empty,
+  includes,
+  isObject,
+  isUndefined,
+  max,
+  min,
+  push,
+  remove,
+  style,
+  unit,
+} from '../../utils';
+import { SlideTemplate } from '../Slides/Slides';
+import { VIRTUAL_BUFFER } from './constants';
+
+
+/**
+ * The interface for the Virtual component.
+ *
+ * @since 3.7.0
+ */
+export interface VirtualComponent extends BaseComponent {
+  isEnabled(): boolean;
+  getLength(): number;
+  getStart(): number;
+}
+
+/**
+ * The interface for options of the virtual mode.
+ *
+ * @since 3.7.0
+ */
+export interface VirtualOptions {
+  /**
+   * The number of slides to render by the `render` function.
+   */
+  length?: number;
+
+  /**
+   * Returns the slide at the index. Each slide is rendered only once and reused afterwards.
+   */
+  render?: ( index: number ) => SlideTemplate;
+
+  /**
+   * The number of slides to render beyond visible ones on each side.
+   */
+  buffer?: number;
+}
+
+/**
+ * The component for rendering only slides around the current position.
+ * Other slides are detached from the list, and a padding of the list keeps rendered slides at their logical positions.
+ *
+ * @since 3.7.0
+ *
+ * @param Splide     - A Splide instance.
+ * @param Components - A collection of components.
+ * @param options    - Options.
+ *
+ * @return A Virtual component object.
+ */
+export function Virtual( Splide: Splide, Components: Components, options: Options ): VirtualComponent {
+  const { on, emit } = EventInterface( Splide );
+  const { Slides, Layout, Move } = Components;
+  const { slides, list } = Components.Elements;
+  const { resolve } = Components.Direction;
+
+  /**
+   * Stores slide elements by their logical indices.
+   */
+  const pool: HTMLElement[] = [];
+
+  /**
+   * Options for the virtual mode. This is `undefined` if the mode is disabled.
+   */
+  let virtual: VirtualOptions;
+
+  /**
+   * The logical number of slides.
+   */
+  let length = 0;
+
+  /**
+   * The index of the first rendered slide.
+   */
+  let start = 0;
+
+  /**
+   * The index after the last rendered slide.
+   */
+  let end = 0;
+
+  /**
+   * Called when the component is constructed.
+   * Slides in the markup are detached before the Slides component registers them.
+   */
+  function setup(): void {
+    if ( options.virtual && Splide.is( SLIDE ) ) {
+      virtual = isObject( options.virtual ) ? options.virtual : {};
+
+      if ( virtual.render ) {
+        length = virtual.length || 0;
+      } else {
+        push( pool, slides );
+        remove( slides );
+        length = pool.length;
+      }
+
+      empty( slides );
+    }
+  }
+
+  /**
+   * Called when the component is mounted.
+   */
+  function mount(): void {
+    if ( virtual ) {
+      update();
+      on( [
+        EVENT_MOVE,
+        EVENT_MOVED,
+        EVENT_DRAGGING,
+        EVENT_SCROLLED,
+        EVENT_RESIZED,
+        EVENT_UPDATED,
+        EVENT_REFRESH,
+      ], update );
+    }
+  }
+
+  /**
+   * Destroys the component.
+   * Slides in the markup are restored, whereas rendered slides are removed.
+   *
+   * @param completely - Optional. `true` if the slider is completely destroyed.
+   */
+  function destroy( completely?: boolean ): void {
+    if ( virtual && completely ) {
+      remove( pool );
+      virtual.render || pool.forEach( slide => { append( list, slide ) } );
+    }
+  }
+
+  /**
+   * Renders slides around the current position and the active index.
+   * If they are far from each other, such as after jumping to a distant slide, only ones around the index are rendered.
+   */
+  function update(): void {
+    const size    = Layout.slideSize( 0 );
+    const count   = size ? ceil( Layout.listSize() / size ) : options.perPage || 1;
+    const buffer  = isUndefined( virtual.buffer ) ? VIRTUAL_BUFFER : virtual.buffer;
+    const { index } = Splide;
+    const current = size ? Move.toIndex( Move.getPosition() ) : index;
+    const near    = abs( current - index ) <= count;
+
+    render(
+      max( ( near ? min( current, index ) : index ) - count - buffer, 0 ),
+      min( ( near ? max( current, index ) : index ) + count + buffer, length )
+    );
+
+    if ( ! size && Layout.slideSize( 0 ) ) {
+      update();
+    }
+  }
+
+  /**
+   * Renders slides in the range and detaches others.
+   * Only Slide objects for newly rendered slides are created.
+   *
+   * @param from - An index of the first slide to render.
+   * @param to   - An index after the last slide to render.
+   */
+  function render( from: number, to: number ): void {
+    if ( from !== start || to !== end || slides.length !== to - from ) {
+      const elements: HTMLElement[] = [];
+
+      for ( let i = from; i < to; i++ ) {
+        elements.push( pool[ i ] || ( pool[ i ] = build( i ) ) );
+      }
+
+      const leaving = slides.filter( slide => ! includes( elements, slide ) );
+      const ref     = slides.filter( slide => includes( elements, slide ) )[ 0 ];
+
+      Slides.unregister( leaving );
+      remove( leaving );
+
+      const entering = elements.filter( slide => ! includes( slides, slide ) );
+
+      entering.forEach( slide => {
+        const index = from + elements.indexOf( slide );
+        ref && index < start ? before( slide, ref ) : append( list, slide );
+        Slides.register( slide, index, -1 );
+      } );
+
+      empty( slides );
+      push( slides, elements );
+      start = from;
+      end   = to;
+
+      const Rendered = Slides.filter( Slide => includes( entering, Slide.slide ) );
+
+      if ( Rendered.length ) {
+        emit( EVENT_SLIDES_RENDERED, Rendered );
+        Rendered.forEach( Slide => { Slide.update() } );
+      }
+    }
+
+    style( list, resolve( 'paddingLeft' ), unit( start * Layout.slideSize( 0 ) ) );
+  }
+
+  /**
+   * Creates a slide element for the index by the `render` function.
+   *
+   * @param index - A slide index.
+   *
+   * @return A slide element.
+   */
+  function build( index: number ): HTMLElement {
+    const slide = Slides.build( virtual.render( index ) );
+    addClass( slide, options.classes.slide );
+    return slide;
+  }
+
+  /**
+   * Checks if the virtual mode is enabled or not.
+   *
+   * @return `true` if the virtual mode is enabled, or otherwise `false`.
+   */
+  function isEnabled(): boolean {
+    return !! virtual;
+  }
+
+  /**
+   * Returns the logical number of slides.
+   *
+   * @return The number of slides.
+   */
+  function getLength(): number {
+    return length;
+  }
+
+  /**
+   * Returns the index of the first rendered slide.
+   *
+   * @return The index of the first rendered slide.
+   */
+  function getStart(): number {
+    return start;
+  }
+
+  return {
+    setup,
+    mount,
+    destroy,
+    isEnabled,
+    getLength,
+    getStart,
+  };
+}
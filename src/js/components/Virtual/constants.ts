@@ -0,0 +1,6 @@
+/**
+ * The default number of slides to render beyond visible ones on each side in the virtual mode.
+ *
+ * @since 3.7.0
+ */
+export const VIRTUAL_BUFFER = 2;
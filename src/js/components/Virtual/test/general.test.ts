@@ -0,0 +1,134 @@
+import { EVENT_SLIDES_RENDERED } from '../../../constants/events';
+import { init } from '../../../test';
+import { SLIDER_WIDTH } from '../../../test/fixtures/constants';
+
+
+describe( 'Virtual', () => {
+  test( 'can render only slides around the active one.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 100 } );
+    const { list } = splide.Components.Elements;
+
+    expect( splide.length ).toBe( 100 );
+    expect( list.children.length ).toBe( 3 );
+    expect( splide.Components.Slides.getLength() ).toBe( 3 );
+    expect( splide.Components.Slides.getAt( 0 ).slide.getAttribute( 'aria-label' ) ).toBe( '1 of 100' );
+  } );
+
+  test( 'can render slides around the destination with their logical indices.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 100 } );
+    const { list, slides } = splide.Components.Elements;
+
+    splide.go( 50 );
+
+    expect( splide.index ).toBe( 50 );
+    expect( list.children.length ).toBe( 6 );
+    expect( slides[ 0 ].getAttribute( 'aria-label' ) ).toBe( '48 of 100' );
+    expect( splide.Components.Slides.getAt( 50 ).slide ).toBe( slides[ 3 ] );
+    expect( splide.Components.Slides.getAt( 0 ) ).toBeUndefined();
+    expect( list.style.paddingLeft ).toBe( `${ SLIDER_WIDTH * 47 }px` );
+    expect( splide.Components.Move.getPosition() ).toBe( -SLIDER_WIDTH * 50 );
+  } );
+
+  test( 'can compute sizes and indices from logical indices.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 100 } );
+    const { Layout, Move, Controller } = splide.Components;
+
+    expect( Layout.sliderSize() ).toBe( SLIDER_WIDTH * 100 );
+    expect( Layout.totalSize( 49 ) ).toBe( SLIDER_WIDTH * 50 );
+    expect( Move.toIndex( -SLIDER_WIDTH * 80 ) ).toBe( 80 );
+    expect( Controller.getEnd() ).toBe( 99 );
+  } );
+
+  test( 'can create pages for all slides.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 30 } );
+    expect( splide.Components.Pagination.items.length ).toBe( 30 );
+  } );
+
+  test( 'can render slides by the render function only once.', () => {
+    const render = jest.fn( ( index: number ) => ( { html: `${ index }` } ) );
+    const splide = init( { speed: 0, virtual: { length: 1000, render } }, { length: 0 } );
+    const { list } = splide.Components.Elements;
+
+    expect( splide.length ).toBe( 1000 );
+    expect( list.children.length ).toBe( 3 );
+    expect( list.children[ 0 ].textContent ).toBe( '0' );
+
+    splide.go( 500 );
+
+    expect( list.children.length ).toBe( 6 );
+    expect( list.children[ 0 ].textContent ).toBe( '497' );
+
+    splide.go( 0 );
+
+    expect( list.children[ 0 ].textContent ).toBe( '0' );
+    expect( render ).toHaveBeenCalledTimes( 9 );
+  } );
+
+  test( 'can emit the event with newly rendered slides.', () => {
+    const splide   = init( { speed: 0, virtual: true }, { length: 100 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_SLIDES_RENDERED, callback );
+    splide.go( 3 );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( callback.mock.calls[ 0 ][ 0 ].length ).toBe( 3 );
+  } );
+
+  test( 'should keep logical indices after refresh.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 100 } );
+    const { slides } = splide.Components.Elements;
+
+    splide.go( 50 );
+
+    const slide = slides[ 3 ];
+
+    splide.refresh();
+
+    expect( splide.length ).toBe( 100 );
+    expect( splide.Components.Slides.getAt( 50 ).slide ).toBe( slide );
+    expect( splide.Components.Elements.list.style.paddingLeft ).toBe( `${ SLIDER_WIDTH * 47 }px` );
+  } );
+
+  test( 'can restore slides in the markup when the slider is destroyed.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 100 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( 50 );
+    splide.destroy();
+
+    expect( list.children.length ).toBe( 100 );
+  } );
+
+  test( 'should not virtualize slides if the type is not slide.', () => {
+    const splide = init( { type: 'fade', virtual: true }, { length: 100 } );
+    expect( splide.Components.Elements.list.children.length ).toBe( 100 );
+  } );
+
+  test( 'should not allow to add or remove slides in the virtual mode.', () => {
+    const splide = init( { speed: 0, virtual: true }, { length: 100 } );
+    const { list } = splide.Components.Elements;
+
+    expect( () => splide.add( '<li class="splide__slide">new</li>' ) ).toThrow( 'virtual mode' );
+    expect( () => splide.remove( 0 ) ).toThrow( 'virtual mode' );
+    expect( () => splide.setSlides( [ 1 ], { key: item => item, render: item => `${ item }` } ) ).toThrow( 'virtual mode' );
+    expect( () => splide.filter( null ) ).toThrow( 'virtual mode' );
+    expect( () => splide.moveSlide( 0, 1 ) ).toThrow( 'virtual mode' );
+
+    expect( splide.length ).toBe( 100 );
+    expect( list.children.length ).toBe( 3 );
+    expect( splide.Components.Slides.getLength( true ) ).toBe( 100 );
+
+    splide.go( 50 );
+
+    expect( splide.Components.Slides.getAt( 50 ).slide.getAttribute( 'aria-label' ) ).toBe( '51 of 100' );
+  } );
+
+  test( 'should ignore the source option in the virtual mode.', () => {
+    const source = jest.fn( () => Promise.resolve( [] ) );
+    const splide = init( { speed: 0, virtual: true, source }, { length: 100 } );
+
+    expect( source ).not.toHaveBeenCalled();
+    expect( splide.Components.Source.hasMore() ).toBe( false );
+  } );
+} );
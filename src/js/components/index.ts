@@ -17,3 +17,12 @@ export { Pagination } from './Pagination/Pagination';
 export { Sync }       from './Sync/Sync';
 export { Live }       from './Live/Live';
 export { Wheel }      from './Wheel/Wheel';
+export { Persist }    from './Persist/Persist';
+export { Deeplink }   from './Deeplink/Deeplink';
+export { Snapshot }   from './Snapshot/Snapshot';
+export { Progress }   from './Progress/Progress';
+export { DomEvents }  from './DomEvents/DomEvents';
+export { Observer }   from './Observer/Observer';
+export { Virtual }    from './Virtual/Virtual';
+export { Source }     from './Source/Source';
+export { Rearrange }  from './Rearrange/Rearrange';
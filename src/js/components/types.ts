@@ -1,7 +1,7 @@
 export type { OptionsComponent }    from './Options/Options';
 export type { DirectionComponent }  from './Direction/Direction';
 export type { ElementsComponent }   from './Elements/Elements';
-export type { SlidesComponent }     from './Slides/Slides';
+export type { SlidesComponent, SetSlidesOptions, SlidesComparator, SlideTemplate } from './Slides/Slides';
 export type { SlideComponent }      from './Slides/Slide';
 export type { LayoutComponent }     from './Layout/Layout';
 export type { ClonesComponent }     from './Clones/Clones';
@@ -18,5 +18,17 @@ export type { PaginationComponent } from './Pagination/Pagination';
 export type { SyncComponent }       from './Sync/Sync';
 export type { WheelComponent }      from './Wheel/Wheel';
 export type { LiveComponent }       from './Live/Live';
+export type { PersistComponent }    from './Persist/Persist';
+export type { DeeplinkComponent }   from './Deeplink/Deeplink';
+export type { SnapshotComponent }   from './Snapshot/Snapshot';
+export type { ProgressComponent }   from './Progress/Progress';
+export type { DomEventsComponent }  from './DomEvents/DomEvents';
+export type { ObserverComponent }   from './Observer/Observer';
+export type { VirtualComponent }    from './Virtual/Virtual';
+export type { SourceComponent }     from './Source/Source';
+export type { RearrangeComponent }  from './Rearrange/Rearrange';
 
 export type { PaginationData, PaginationItem } from './Pagination/Pagination';
+export type { PersistStorage, PersistedState } from './Persist/Persist';
+export type { VirtualOptions } from './Virtual/Virtual';
+export type { MoveGuard, NavigationResult, NavigationRejection } from './Controller/Controller';
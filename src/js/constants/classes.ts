@@ -8,6 +8,7 @@ export const CLASS_LIST            = `${ PROJECT_CODE }__list`;
 export const CLASS_SLIDE           = `${ PROJECT_CODE }__slide`;
 export const CLASS_CLONE           = `${ CLASS_SLIDE }--clone`;
 export const CLASS_CONTAINER       = `${ CLASS_SLIDE }__container`;
+export const CLASS_PLACEHOLDER     = `${ CLASS_SLIDE }--placeholder`;
 export const CLASS_ARROWS          = `${ PROJECT_CODE }__arrows`;
 export const CLASS_ARROW           = `${ PROJECT_CODE }__arrow`;
 export const CLASS_ARROW_PREV      = `${ CLASS_ARROW }--prev`;
@@ -21,12 +22,16 @@ export const CLASS_PLAY            = `${ PROJECT_CODE }__play`;
 export const CLASS_PAUSE           = `${ PROJECT_CODE }__pause`;
 export const CLASS_SPINNER         = `${ PROJECT_CODE }__spinner`;
 export const CLASS_SR              = `${ PROJECT_CODE }__sr`;
+export const CLASS_RETRY           = `${ PROJECT_CODE }__retry`;
 export const CLASS_INITIALIZED     = 'is-initialized';
 export const CLASS_ACTIVE          = 'is-active';
 export const CLASS_PREV            = 'is-prev';
 export const CLASS_NEXT            = 'is-next';
 export const CLASS_VISIBLE         = 'is-visible';
 export const CLASS_LOADING         = 'is-loading';
+export const CLASS_REORDERING      = 'is-reordering';
+export const CLASS_FILTERED        = 'is-filtered';
+export const CLASS_ERROR           = 'is-error';
 
 /**
  * The array with all status classes.
@@ -41,13 +46,15 @@ export const STATUS_CLASSES = [ CLASS_ACTIVE, CLASS_VISIBLE, CLASS_PREV, CLASS_N
  * @since 3.0.0
  */
 export const CLASSES = {
-  slide     : CLASS_SLIDE,
-  clone     : CLASS_CLONE,
-  arrows    : CLASS_ARROWS,
-  arrow     : CLASS_ARROW,
-  prev      : CLASS_ARROW_PREV,
-  next      : CLASS_ARROW_NEXT,
-  pagination: CLASS_PAGINATION,
-  page      : CLASS_PAGINATION_PAGE,
-  spinner   : CLASS_SPINNER,
+  slide      : CLASS_SLIDE,
+  clone      : CLASS_CLONE,
+  arrows     : CLASS_ARROWS,
+  arrow      : CLASS_ARROW,
+  prev       : CLASS_ARROW_PREV,
+  next       : CLASS_ARROW_NEXT,
+  pagination : CLASS_PAGINATION,
+  page       : CLASS_PAGINATION_PAGE,
+  spinner    : CLASS_SPINNER,
+  placeholder: CLASS_PLACEHOLDER,
+  retry      : CLASS_RETRY,
 };
@@ -1,5 +1,6 @@
 export const EVENT_MOUNTED            = 'mounted';
 export const EVENT_READY              = 'ready';
+export const EVENT_BEFORE_MOVE        = 'beforemove';
 export const EVENT_MOVE               = 'move';
 export const EVENT_MOVED              = 'moved';
 export const EVENT_SHIFTED            = 'shifted';
@@ -29,4 +30,14 @@ export const EVENT_AUTOPLAY_PLAY      = 'autoplay:play';
 export const EVENT_AUTOPLAY_PLAYING   = 'autoplay:playing';
 export const EVENT_AUTOPLAY_PAUSE     = 'autoplay:pause';
 export const EVENT_LAZYLOAD_LOADED    = 'lazyload:loaded';
+export const EVENT_REACH_BEGINNING    = 'reach:beginning';
+export const EVENT_REACH_END          = 'reach:end';
+export const EVENT_FROM_EDGE          = 'fromedge';
+export const EVENT_PROGRESS           = 'progress';
+export const EVENT_SLIDES_ADDED       = 'slides:added';
+export const EVENT_SLIDES_REMOVED     = 'slides:removed';
+export const EVENT_SLIDES_MOVED       = 'slides:moved';
+export const EVENT_SLIDES_RENDERED    = 'slides:rendered';
+export const EVENT_SOURCE_LOADED      = 'source:loaded';
+export const EVENT_SOURCE_ERROR       = 'source:error';
 
@@ -15,4 +15,5 @@ export const I18N = {
   carousel  : 'carousel',
   slide     : 'slide',
   slideLabel: '%s of %s', // [ slide number ] / [ slide size ]
+  retry     : 'Retry loading slides',
 };
@@ -11,3 +11,17 @@ export const PROJECT_CODE = 'splide';
  * @since 3.0.0
  */
 export const DATA_ATTRIBUTE = `data-${ PROJECT_CODE }`;
+
+/**
+ * The data attribute for the slug of the slide, which the control pattern `'slug:name'` refers to.
+ *
+ * @since 3.7.0
+ */
+export const SLUG_DATA_ATTRIBUTE = `${ DATA_ATTRIBUTE }-slug`;
+
+/**
+ * The data attribute for the key of the slide, which `setSlides()` uses to find the slide to reuse.
+ *
+ * @since 3.7.0
+ */
+export const KEY_DATA_ATTRIBUTE = `${ DATA_ATTRIBUTE }-key`;
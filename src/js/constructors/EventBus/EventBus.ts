@@ -1,6 +1,6 @@
 import { DEFAULT_EVENT_PRIORITY } from '../../constants/priority';
 import { AnyFunction } from '../../types';
-import { forOwn, push, slice, toArray } from '../../utils';
+import { forOwn, slice, toArray } from '../../utils';
 
 
 /**
@@ -10,9 +10,10 @@ import { forOwn, push, slice, toArray } from '../../utils';
  */
 export interface EventBusObject {
   on( events: string | string[], callback: EventBusCallback, key?: object, priority?: number ): void;
+  once( events: string | string[], callback: EventBusCallback, key?: object, priority?: number ): void;
   off( events: string | string[], key?: object ): void;
   offBy( key: object ): void;
-  emit( event: string, ...args: any[] ): void;
+  emit( event: string, ...args: any[] ): any[];
   destroy(): void;
 }
 
@@ -27,6 +28,7 @@ export interface EventHandler {
   _namespace: string;
   _priority: number;
   _key?: object;
+  _once?: boolean;
 }
 
 /**
@@ -49,8 +51,16 @@ export function EventBus(): EventBusObject {
    */
   let handlers: Record<string, EventHandler[]> = {};
 
+  /**
+   * Indicates whether any wildcard handler has been registered or not.
+   * Until then, `emit()` skips looking up wildcard handlers.
+   */
+  let hasWildcard: boolean;
+
   /**
    * Registers an event handler.
+   * The `'*'` event matches all events, and the `'prefix:*'` event matches events that start with `'prefix:'`.
+   * Callbacks for these wildcard events receive the actual event name as the first argument.
    *
    * @param events   - An event name or names separated by spaces. Use a dot(.) to add a namespace.
    * @param callback - A callback function to register.
@@ -63,17 +73,68 @@ export function EventBus(): EventBusObject {
     callback: EventBusCallback,
     key?: object,
     priority = DEFAULT_EVENT_PRIORITY
+  ): void {
+    register( events, callback, key, priority );
+  }
+
+  /**
+   * Registers an event handler that is invoked only once and then removed.
+   *
+   * @param events   - An event name or names separated by spaces. Use a dot(.) to add a namespace.
+   * @param callback - A callback function to register.
+   * @param key      - Optional. An object for an identifier of the handler.
+   * @param priority - Optional. A priority number for the order in which the callbacks are invoked.
+   *                   Lower numbers correspond with earlier execution. The default value is 10.
+   */
+  function once(
+    events: string | string[],
+    callback: EventBusCallback,
+    key?: object,
+    priority = DEFAULT_EVENT_PRIORITY
+  ): void {
+    register( events, callback, key, priority, true );
+  }
+
+  /**
+   * Creates handler objects and inserts them into the list of each event.
+   * Since lists are always sorted by priorities, the position is found by the binary search
+   * without sorting the whole list again.
+   * A new handler is placed after handlers with the same priority.
+   *
+   * @param events   - An event name or names separated by spaces.
+   * @param callback - A callback function to register.
+   * @param key      - An object for an identifier of the handler.
+   * @param priority - A priority number.
+   * @param isOnce   - Optional. Determines whether to remove the handler after the first call or not.
+   */
+  function register(
+    events: string | string[],
+    callback: EventBusCallback,
+    key: object,
+    priority: number,
+    isOnce?: boolean
   ): void {
     forEachEvent( events, ( event, namespace ) => {
-      handlers[ event ] = handlers[ event ] || [];
+      const eventHandlers = handlers[ event ] = handlers[ event ] || [];
+
+      hasWildcard = hasWildcard || event.slice( -1 ) === '*';
 
-      push( handlers[ event ], {
+      let lower = 0;
+      let upper = eventHandlers.length;
+
+      while ( lower < upper ) {
+        const middle = ( lower + upper ) >> 1;
+        eventHandlers[ middle ]._priority <= priority ? ( lower = middle + 1 ) : ( upper = middle );
+      }
+
+      eventHandlers.splice( lower, 0, {
         _event    : event,
         _callback : callback,
         _namespace: namespace,
         _priority : priority,
         _key      : key,
-      } ).sort( ( handler1, handler2 ) => handler1._priority - handler2._priority );
+        _once     : isOnce,
+      } );
     } );
   }
 
@@ -111,19 +172,78 @@ export function EventBus(): EventBusObject {
    * This accepts additional arguments and passes them to callbacks.
    *
    * @param event - An event name.
+   *
+   * @return An array with values returned by callbacks.
    */
-  function emit( event: string ): void {
-    ( handlers[ event ] || [] ).forEach( handler => {
-      // eslint-disable-next-line prefer-rest-params, prefer-spread
-      handler._callback.apply( handler, slice( arguments, 1 ) );
+  function emit( event: string ): any[] {
+    // eslint-disable-next-line prefer-rest-params
+    const args = slice( arguments, 1 );
+
+    return ( hasWildcard ? collect( event ) : handlers[ event ] || [] ).map( handler => {
+      if ( handler._once ) {
+        remove( handler );
+      }
+
+      // eslint-disable-next-line prefer-spread
+      return handler._callback.apply( handler, handler._event === event ? args : [ event, ...args ] );
     } );
   }
 
+  /**
+   * Collects handlers for the event, including ones for wildcard events, in order of priorities.
+   * Returns a new array so that handlers added or removed during emission do not affect the iteration.
+   *
+   * @param event - An event name.
+   *
+   * @return An array with handlers.
+   */
+  function collect( event: string ): EventHandler[] {
+    const colon = event.indexOf( ':' );
+    const names = [ colon > -1 ? `${ event.slice( 0, colon ) }:*` : '', '*' ].filter( name => name && name !== event );
+
+    return names.reduce( ( collected, name ) => {
+      return merge( collected, handlers[ name ] || [] );
+    }, slice( handlers[ event ] || [] ) );
+  }
+
+  /**
+   * Merges 2 lists of handlers sorted by priorities into a new sorted list.
+   * On the same priority, handlers in the first list come first.
+   *
+   * @param list1 - A sorted list.
+   * @param list2 - Another sorted list.
+   *
+   * @return A merged list.
+   */
+  function merge( list1: EventHandler[], list2: EventHandler[] ): EventHandler[] {
+    const merged: EventHandler[] = [];
+    let i = 0;
+    let j = 0;
+
+    while ( i < list1.length || j < list2.length ) {
+      const useFirst = j >= list2.length || ( i < list1.length && list1[ i ]._priority <= list2[ j ]._priority );
+      merged.push( useFirst ? list1[ i++ ] : list2[ j++ ] );
+    }
+
+    return merged;
+  }
+
+  /**
+   * Removes the specific handler object.
+   *
+   * @param handler - A handler to remove.
+   */
+  function remove( handler: EventHandler ): void {
+    const eventHandlers = handlers[ handler._event ];
+    handlers[ handler._event ] = eventHandlers && eventHandlers.filter( eventHandler => eventHandler !== handler );
+  }
+
   /**
    * Removes all handlers.
    */
   function destroy(): void {
-    handlers = {};
+    handlers    = {};
+    hasWildcard = false;
   }
 
   /**
@@ -141,6 +261,7 @@ export function EventBus(): EventBusObject {
 
   return {
     on,
+    once,
     off,
     offBy,
     emit,
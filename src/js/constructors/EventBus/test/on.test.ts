@@ -81,6 +81,20 @@ describe( 'EventBus#on()', () => {
     expect( called ).toEqual( [ 1, 2, 3 ] );
   } );
 
+  test( 'should keep the registration order for handlers with the same priority.', () => {
+    const event = EventBus();
+    const called: number[] = [];
+
+    event.on( 'mounted', () => { called.push( 1 ) }, null, 1 );
+    event.on( 'mounted', () => { called.push( 3 ) }, null, 2 );
+    event.on( 'mounted', () => { called.push( 2 ) }, null, 1 );
+    event.on( 'mounted', () => { called.push( 4 ) }, null, 2 );
+
+    event.emit( 'mounted' );
+
+    expect( called ).toEqual( [ 1, 2, 3, 4 ] );
+  } );
+
   test( 'can receive arguments.', () => {
     const event    = EventBus();
     const callback = jest.fn();
@@ -90,4 +104,14 @@ describe( 'EventBus#on()', () => {
 
     expect( callback ).toHaveBeenCalledWith( 1, true, 'string' );
   } );
+
+  test( 'can collect values returned by callbacks.', () => {
+    const event = EventBus();
+
+    event.on( 'mounted', () => 2, null, 20 );
+    event.on( 'mounted', () => 1, null, 10 );
+
+    expect( event.emit( 'mounted' ) ).toEqual( [ 1, 2 ] );
+    expect( event.emit( 'moved' ) ).toEqual( [] );
+  } );
 } );
@@ -0,0 +1,42 @@
+import { EventBus } from '../EventBus';
+
+
+describe( 'EventBus#once()', () => {
+  test( 'can listen to an event only once.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.once( 'moved', callback );
+
+    event.emit( 'moved', 1 );
+    event.emit( 'moved', 2 );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( callback ).toHaveBeenCalledWith( 1 );
+  } );
+
+  test( 'should remove the handler only for the emitted event.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.once( 'moved resized', callback );
+
+    event.emit( 'moved' );
+    event.emit( 'moved' );
+    event.emit( 'resized' );
+    event.emit( 'resized' );
+
+    expect( callback ).toHaveBeenCalledTimes( 2 );
+  } );
+
+  test( 'can be removed by off() before the event is emitted.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.once( 'moved.myNamespace', callback );
+    event.off( 'moved.myNamespace' );
+    event.emit( 'moved' );
+
+    expect( callback ).not.toHaveBeenCalled();
+  } );
+} );
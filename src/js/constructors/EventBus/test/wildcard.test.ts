@@ -0,0 +1,94 @@
+import { EventBus } from '../EventBus';
+
+
+describe( 'EventBus', () => {
+  test( 'can listen to all events by "*" with receiving the event name.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.on( '*', callback );
+
+    event.emit( 'moved', 1, 2 );
+    event.emit( 'autoplay:play' );
+
+    expect( callback ).toHaveBeenCalledTimes( 2 );
+    expect( callback ).toHaveBeenNthCalledWith( 1, 'moved', 1, 2 );
+    expect( callback ).toHaveBeenNthCalledWith( 2, 'autoplay:play' );
+  } );
+
+  test( 'can listen to events that have the specified prefix.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.on( 'autoplay:*', callback );
+
+    event.emit( 'autoplay:play' );
+    event.emit( 'autoplay:pause' );
+    event.emit( 'moved' );
+    event.emit( 'autoplay' );
+
+    expect( callback ).toHaveBeenCalledTimes( 2 );
+    expect( callback ).toHaveBeenNthCalledWith( 1, 'autoplay:play' );
+    expect( callback ).toHaveBeenNthCalledWith( 2, 'autoplay:pause' );
+  } );
+
+  test( 'should invoke wildcard handlers in order of priorities with other handlers.', () => {
+    const event = EventBus();
+    const order: string[] = [];
+
+    event.on( 'autoplay:play', () => order.push( 'exact' ), null, 20 );
+    event.on( '*', () => order.push( 'all' ), null, 5 );
+    event.on( 'autoplay:*', () => order.push( 'prefix' ), null, 10 );
+    event.on( 'autoplay:play', () => order.push( 'early' ), null, 1 );
+
+    event.emit( 'autoplay:play' );
+
+    expect( order ).toEqual( [ 'early', 'all', 'prefix', 'exact' ] );
+  } );
+
+  test( 'can remove wildcard handlers.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.on( '* autoplay:*', callback );
+    event.off( '* autoplay:*' );
+    event.emit( 'autoplay:play' );
+
+    expect( callback ).not.toHaveBeenCalled();
+  } );
+
+  test( 'can listen to a wildcard event only once.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+
+    event.once( '*', callback );
+
+    event.emit( 'moved' );
+    event.emit( 'moved' );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'can listen to wildcard events registered after other events are emitted.', () => {
+    const event    = EventBus();
+    const callback = jest.fn();
+    const all      = jest.fn();
+
+    event.on( 'moved', callback );
+    event.emit( 'moved' );
+
+    event.on( '*', all );
+    event.emit( 'moved', 1 );
+
+    expect( callback ).toHaveBeenCalledTimes( 2 );
+    expect( all ).toHaveBeenCalledTimes( 1 );
+    expect( all ).toHaveBeenCalledWith( 'moved', 1 );
+
+    event.destroy();
+    event.on( 'moved', callback );
+    event.emit( 'moved' );
+
+    expect( callback ).toHaveBeenCalledTimes( 3 );
+    expect( all ).toHaveBeenCalledTimes( 1 );
+  } );
+} );
@@ -13,6 +13,8 @@ import { EventBusCallback } from '../EventBus/EventBus';
 export interface EventInterfaceObject {
   on<K extends keyof EventMap>( event: K, callback: EventMap[ K ], priority?: number ): void;
   on( events: string | string[], callback: EventBusCallback, priority?: number ): void;
+  once<K extends keyof EventMap>( event: K, callback: EventMap[ K ], priority?: number ): void;
+  once( events: string | string[], callback: EventBusCallback, priority?: number ): void;
   off<K extends keyof EventMap>( events: K | K[] | string | string[] ): void;
   emit<K extends keyof EventMap>( event: K, ...args: Parameters<EventMap[ K ]> ): void
   emit( event: string, ...args: any[] ): void;
@@ -75,6 +77,17 @@ export function EventInterface( Splide: Splide ): EventInterfaceObject {
     event.on( events, callback, key, priority );
   }
 
+  /**
+   * Registers an event handler that is invoked only once.
+   *
+   * @param events   - An event name or names separated by spaces. Use a dot(.) to add a namespace.
+   * @param callback - A callback function to register.
+   * @param priority - Optional. A priority number for the order in which the callbacks are invoked.
+   */
+  function once( events: string | string[], callback: EventBusCallback, priority?: number ): void {
+    event.once( events, callback, key, priority );
+  }
+
   /**
    * Removes event handlers registered by `on()`.
    *
@@ -159,6 +172,7 @@ export function EventInterface( Splide: Splide ): EventInterfaceObject {
 
   return {
     on,
+    once,
     off,
     emit: event.emit,
     bind,
@@ -0,0 +1,99 @@
+import { forOwn } from '../../utils';
+
+
+/**
+ * The interface for the Store object.
+ *
+ * @since 3.7.0
+ */
+export interface StoreObject<T extends object> {
+  getSnapshot(): T;
+  set( value: T ): void;
+  subscribe( listener: StoreListener ): () => void;
+}
+
+/**
+ * The type for a listener of the store.
+ *
+ * @since 3.7.0
+ */
+export type StoreListener = () => void;
+
+/**
+ * The constructor for the store that holds an immutable snapshot and notifies listeners of changes.
+ * Functions do not depend on `this`, which makes them usable for `useSyncExternalStore()` of React as they are.
+ *
+ * @since 3.7.0
+ *
+ * @param initialValue - Optional. The initial snapshot.
+ *
+ * @return A Store object.
+ */
+export function Store<T extends object>( initialValue?: T ): StoreObject<T> {
+  /**
+   * Holds the current snapshot.
+   */
+  let snapshot = initialValue && Object.freeze( initialValue );
+
+  /**
+   * Holds registered listeners.
+   */
+  let listeners: StoreListener[] = [];
+
+  /**
+   * Returns the current snapshot.
+   * The same object is returned until any value changes.
+   *
+   * @return The current snapshot.
+   */
+  function getSnapshot(): T {
+    return snapshot;
+  }
+
+  /**
+   * Replaces the snapshot and notifies listeners if any value differs from the current one.
+   *
+   * @param value - A new snapshot.
+   */
+  function set( value: T ): void {
+    if ( ! equals( snapshot, value ) ) {
+      snapshot = Object.freeze( value );
+      listeners.slice().forEach( listener => { listener() } );
+    }
+  }
+
+  /**
+   * Registers the listener invoked whenever the snapshot changes.
+   *
+   * @param listener - A listener function.
+   *
+   * @return A function to unsubscribe the listener.
+   */
+  function subscribe( listener: StoreListener ): () => void {
+    listeners.push( listener );
+
+    return () => {
+      listeners = listeners.filter( item => item !== listener );
+    };
+  }
+
+  /**
+   * Checks if the two snapshots have the same values or not.
+   *
+   * @param value1 - A snapshot to compare.
+   * @param value2 - Another snapshot to compare.
+   *
+   * @return `true` if all values are same.
+   */
+  function equals( value1: T, value2: T ): boolean {
+    let result = !! value1 && Object.keys( value1 ).length === Object.keys( value2 ).length;
+    result && forOwn( value2, ( value, key ) => ( result = value1[ key ] === value ) );
+    return result;
+  }
+
+  return {
+    getSnapshot,
+    set,
+    subscribe,
+  };
+}
@@ -0,0 +1,40 @@
+import { Store } from '../Store';
+
+
+describe( 'Store', () => {
+  test( 'can hold the frozen snapshot.', () => {
+    const store = Store( { a: 1 } );
+    const snapshot = store.getSnapshot();
+
+    expect( snapshot ).toEqual( { a: 1 } );
+    expect( Object.isFrozen( snapshot ) ).toBe( true );
+  } );
+
+  test( 'can replace the snapshot only when some values change.', () => {
+    const store    = Store( { a: 1, b: 2 } );
+    const listener = jest.fn();
+    const snapshot = store.getSnapshot();
+
+    store.subscribe( listener );
+
+    store.set( { a: 1, b: 2 } );
+    expect( store.getSnapshot() ).toBe( snapshot );
+    expect( listener ).not.toHaveBeenCalled();
+
+    store.set( { a: 1, b: 3 } );
+    expect( store.getSnapshot() ).toEqual( { a: 1, b: 3 } );
+    expect( listener ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'can unsubscribe the listener.', () => {
+    const store    = Store<{ a: number }>();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe( listener );
+
+    store.set( { a: 1 } );
+    unsubscribe();
+    store.set( { a: 2 } );
+
+    expect( listener ).toHaveBeenCalledTimes( 1 );
+  } );
+} );
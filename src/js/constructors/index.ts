@@ -3,3 +3,4 @@ export * from './EventInterface/EventInterface';
 export * from './RequestInterval/RequestInterval';
 export * from './State/State';
 export * from './Throttle/Throttle';
+export * from './Store/Store';
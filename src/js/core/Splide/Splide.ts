@@ -1,16 +1,51 @@
 import * as ComponentConstructors from '../../components';
-import { SlideMatcher } from '../../components/Slides/Slides';
+import { NavigationResult } from '../../components/Controller/Controller';
+import { SetSlidesOptions, SlideMatcher, SlidesComparator } from '../../components/Slides/Slides';
 import { CLASS_INITIALIZED } from '../../constants/classes';
 import { DEFAULTS } from '../../constants/defaults';
 import { EVENT_DESTROY, EVENT_MOUNTED, EVENT_READY, EVENT_REFRESH, EVENT_UPDATED } from '../../constants/events';
 import { DEFAULT_USER_EVENT_PRIORITY } from '../../constants/priority';
 import { DATA_ATTRIBUTE } from '../../constants/project';
-import { CREATED, DESTROYED, IDLE, STATES } from '../../constants/states';
+import { CREATED, DESTROYED, IDLE, MOVING, STATES } from '../../constants/states';
 import { FADE } from '../../constants/types';
-import { EventBus, EventBusCallback, EventBusObject, State, StateObject } from '../../constructors';
+import {
+  EventBus,
+  EventBusCallback,
+  EventBusObject,
+  State,
+  StateObject,
+  Store,
+  StoreListener,
+  StoreObject,
+} from '../../constructors';
 import { Fade, Slide } from '../../transitions';
-import { ComponentConstructor, Components, EventMap, Options, SyncTarget } from '../../types';
-import { addClass, assert, assign, empty, forOwn, getAttribute, isString, merge, query, slice } from '../../utils';
+import {
+  ComponentConstructor,
+  Components,
+  EventMap,
+  NavigationOptions,
+  Options,
+  SerializedState,
+  SplideSnapshot,
+  SyncTarget,
+} from '../../types';
+import {
+  addClass,
+  assert,
+  assign,
+  clamp,
+  empty,
+  error,
+  find,
+  forOwn,
+  getAttribute,
+  isString,
+  isUndefined,
+  merge,
+  query,
+  queryAll,
+  slice,
+} from '../../utils';
 
 
 /**
@@ -29,6 +64,11 @@ export class Splide {
    */
   static readonly STATES = STATES;
 
+  /**
+   * Holds all mounted instances.
+   */
+  private static readonly _instances: Splide[] = [];
+
   /**
    * The root element where the Splide is applied.
    */
@@ -49,6 +89,20 @@ export class Splide {
    */
   readonly state: StateObject = State( CREATED );
 
+  /**
+   * The StoreObject object that holds the snapshot of the slider state.
+   * Subscriptions survive remounting by breakpoints.
+   * Until the slider is mounted, the store provides the snapshot of the initial state.
+   */
+  readonly store: StoreObject<SplideSnapshot> = Store( {
+    index      : 0,
+    page       : 0,
+    isBeginning: true,
+    isEnd      : false,
+    progress   : 0,
+    playing    : false,
+  } );
+
   /**
    * An array with SyncTarget objects for splide instances to sync with.
    */
@@ -96,6 +150,55 @@ export class Splide {
     }
   }
 
+  /**
+   * Creates and mounts instances for all elements that match the selector.
+   * Options are read from the data attribute of each element.
+   * Elements that already have an instance are not mounted again.
+   * An element that fails to mount, for example, because of invalid JSON in the data attribute,
+   * is reported on the console and skipped so that it does not block others.
+   *
+   * @example
+   * ```ts
+   * // Mounts all elements with the `data-splide` attribute:
+   * Splide.mountAll();
+   * ```
+   *
+   * @param selector   - Optional. A selector for root elements. The default value is `[data-splide]`.
+   * @param Extensions - Optional. An object with extensions.
+   * @param Transition - Optional. A Transition component.
+   *
+   * @return An array with instances for all matched elements.
+   */
+  static mountAll(
+    selector = `[${ DATA_ATTRIBUTE }]`,
+    Extensions?: Record<string, ComponentConstructor>,
+    Transition?: ComponentConstructor
+  ): Splide[] {
+    const splides: Splide[] = [];
+
+    queryAll<HTMLElement>( document, selector ).forEach( root => {
+      try {
+        splides.push( Splide.get( root ) || new Splide( root ).mount( Extensions, Transition ) );
+      } catch ( e ) {
+        error( e.message );
+      }
+    } );
+
+    return splides;
+  }
+
+  /**
+   * Returns the mounted instance for the root element.
+   *
+   * @param target - A root element or its ID with or without `#`.
+   *
+   * @return A Splide instance if available, or otherwise `undefined`.
+   */
+  static get( target: HTMLElement | string ): Splide | undefined {
+    const root = isString( target ) ? document.getElementById( target.replace( /^#/, '' ) ) : target;
+    return root ? find( Splide._instances, splide => splide.root === root ) : undefined;
+  }
+
   /**
    * Initializes the instance.
    *
@@ -106,7 +209,10 @@ export class Splide {
    */
   mount( Extensions?: Record<string, ComponentConstructor>, Transition?: ComponentConstructor ): this {
     const { state, Components } = this;
+    const instance = Splide.get( this.root );
+
     assert( state.is( [ CREATED, DESTROYED ] ), 'Already mounted!' );
+    assert( ! instance || instance === this, 'Another instance is already mounted on the root element.' );
 
     state.set( CREATED );
 
@@ -126,6 +232,7 @@ export class Splide {
       component.mount && component.mount();
     } );
 
+    instance || Splide._instances.push( this );
     this.emit( EVENT_MOUNTED );
 
     addClass( this.root, CLASS_INITIALIZED );
@@ -177,10 +284,16 @@ export class Splide {
    * | `'>'` | Goes to the next page |
    * | `'<'` | Goes to the previous page |
    * | `>${i}` | Goes to the page `i` |
+   * | `'#${id}'` | Goes to the slide with the element ID |
+   * | `'slug:${name}'` | Goes to the slide with the `data-splide-slug` attribute |
    *
    * In most cases, `'>'` and `'<'` notations are enough to control the slider
    * because they respect `perPage` and `perMove` options.
    *
+   * The optional `navigation` object overrides the transition of this move only:
+   * `speed`, `easing` (a CSS timing function), `easingFunc` (for the `useScroll` option)
+   * and `instant` that moves the slider without any transition.
+   *
    * @example
    * ```ts
    * var splide = new Splide();
@@ -196,17 +309,59 @@ export class Splide {
    *
    * // Goes to the page 2:
    * splide.go( '>2' );
+   *
+   * // Goes to the slide 3 without transition:
+   * splide.go( 3, { instant: true } );
    * ```
    *
-   * @param control - A control pattern.
+   * @param control    - A control pattern.
+   * @param navigation - Optional. Options that override the transition of this move.
    *
    * @return `this`
    */
-  go( control: number | string ): this {
-    this._Components.Controller.go( control );
+  go( control: number | string, navigation?: NavigationOptions ): this {
+    this._Components.Controller.go( control, false, null, navigation );
     return this;
   }
 
+  /**
+   * Moves the slider with the control pattern and returns a Promise instance.
+   * The Promise is resolved after the slider reaches the destination, that is, on `moved`,
+   * or on `scrolled` if the `useScroll` option is enabled.
+   * If the request is rejected or another request interrupts the transition,
+   * the result object has the `reason` property that describes why.
+   *
+   * | Reason | Description |
+   * |---|---|
+   * | `'busy'` | The slider is moving and waits for the transition |
+   * | `'outOfRange'` | There is no slide to go |
+   * | `'notEnough'` | The number of slides is not enough to move the slider |
+   * | `'sameIndex'` | The destination is the current index |
+   * | `'canceled'` | A `beforemove` handler cancels the request |
+   * | `'interrupted'` | Another request takes over the transition |
+   * | `'destroyed'` | The slider is destroyed before the transition ends |
+   *
+   * @example
+   * ```ts
+   * var splide = new Splide();
+   * splide.mount();
+   *
+   * splide.goAsync( '>' ).then( function ( result ) {
+   *   if ( ! result.reason ) {
+   *     return splide.goAsync( '>' );
+   *   }
+   * } );
+   * ```
+   *
+   * @param control    - A control pattern.
+   * @param navigation - Optional. Options that override the transition of this move.
+   *
+   * @return A Promise instance resolved with a NavigationResult object.
+   */
+  goAsync( control: number | string, navigation?: NavigationOptions ): Promise<NavigationResult> {
+    return this._Components.Controller.goAsync( control, false, navigation );
+  }
+
   /**
    * Registers an event handler.
    *
@@ -222,17 +377,48 @@ export class Splide {
    *
    * // Appends a namespace:
    * splide.on( 'move.myNamespace resize.myNamespace', function() {} );
+   *
+   * // Listens to all events, or all autoplay events, with receiving the event name:
+   * splide.on( '*', function( event ) {} );
+   * splide.on( 'autoplay:*', function( event ) {} );
+   *
+   * // Runs before internal handlers:
+   * splide.on( 'move', function() {}, 0 );
+   * ```
+   *
+   * @param events   - An event name or names separated by spaces. Use a dot(.) to append a namespace.
+   * @param callback - A callback function.
+   * @param priority - Optional. A priority number. Lower numbers run earlier. Internal handlers use 10.
+   *
+   * @return `this`
+   */
+  on<K extends keyof EventMap>( events: K, callback: EventMap[ K ], priority?: number ): this;
+  on( events: string | string[], callback: EventBusCallback, priority?: number ): this;
+  on( events: string | string[], callback: EventBusCallback, priority = DEFAULT_USER_EVENT_PRIORITY ): this {
+    this.event.on( events, callback, null, priority );
+    return this;
+  }
+
+  /**
+   * Registers an event handler that is invoked only once.
+   *
+   * @example
+   * ```ts
+   * var splide = new Splide();
+   *
+   * splide.once( 'moved', function() {} );
    * ```
    *
    * @param events   - An event name or names separated by spaces. Use a dot(.) to append a namespace.
    * @param callback - A callback function.
+   * @param priority - Optional. A priority number. Lower numbers run earlier. Internal handlers use 10.
    *
    * @return `this`
    */
-  on<K extends keyof EventMap>( events: K, callback: EventMap[ K ] ): this;
-  on( events: string | string[], callback: EventBusCallback ): this;
-  on( events: string | string[], callback: EventBusCallback ): this {
-    this.event.on( events, callback, null, DEFAULT_USER_EVENT_PRIORITY );
+  once<K extends keyof EventMap>( events: K, callback: EventMap[ K ], priority?: number ): this;
+  once( events: string | string[], callback: EventBusCallback, priority?: number ): this;
+  once( events: string | string[], callback: EventBusCallback, priority = DEFAULT_USER_EVENT_PRIORITY ): this {
+    this.event.once( events, callback, null, priority );
     return this;
   }
 
@@ -278,6 +464,7 @@ export class Splide {
 
   /**
    * Inserts a slide at the specified position.
+   * Emits `slides:added` instead of `refresh` unless the `refreshOnChange` option is enabled.
    *
    * @example
    * ```ts
@@ -304,6 +491,7 @@ export class Splide {
   /**
    * Removes slides that match the matcher
    * that can be an index, an array with indices, a selector, or an iteratee function.
+   * Emits `slides:removed` instead of `refresh` unless the `refreshOnChange` option is enabled.
    *
    * @param matcher - An index, an array with indices, a selector string, or an iteratee function.
    */
@@ -312,6 +500,96 @@ export class Splide {
     return this;
   }
 
+  /**
+   * Replaces slides with ones for the provided items.
+   * Slides are identified by keys, so that only slides that are added, moved or removed are changed.
+   * The active slide remains active if it still exists.
+   *
+   * @example
+   * ```ts
+   * var splide = new Splide();
+   * splide.mount();
+   *
+   * splide.setSlides( products, {
+   *   key   : product => product.id,
+   *   render: product => ( { html: `<img src="${ product.image }">` } ),
+   * } );
+   * ```
+   *
+   * @param items   - An array with any data.
+   * @param options - An object with the `key` function and the `render` function.
+   *
+   * @return `this`
+   */
+  setSlides<T>( items: T[], options: SetSlidesOptions<T> ): this {
+    this._Components.Slides.set( items, options );
+    return this;
+  }
+
+  /**
+   * Shows only slides that match the matcher
+   * that can be an index, an array with indices, a selector, or an iteratee function.
+   * Other slides are hidden without being removed from the DOM, and `filter( null )` shows all slides again.
+   *
+   * @example
+   * ```ts
+   * splide.filter( '.is-new' );
+   * splide.filter( null );
+   * ```
+   *
+   * @param matcher - A matcher for slides to show, or `null` to show all slides.
+   *
+   * @return `this`
+   */
+  filter( matcher: SlideMatcher | null ): this {
+    this._Components.Slides.narrow( matcher );
+    return this;
+  }
+
+  /**
+   * Moves the slide at the `from` index to the `to` index.
+   * Indices and labels of slides are updated, and the active slide remains active.
+   *
+   * @param from - An index of the slide to move.
+   * @param to   - A destination index.
+   *
+   * @return `this`
+   */
+  moveSlide( from: number, to: number ): this {
+    this._Components.Slides.move( from, to );
+    return this;
+  }
+
+  /**
+   * Swaps 2 slides.
+   *
+   * @param index1 - An index of the slide.
+   * @param index2 - An index of another slide.
+   *
+   * @return `this`
+   */
+  swapSlides( index1: number, index2: number ): this {
+    this._Components.Slides.swap( index1, index2 );
+    return this;
+  }
+
+  /**
+   * Sorts slides by the comparator function that takes 2 Slide objects.
+   *
+   * @example
+   * ```ts
+   * splide.sortSlides( ( Slide1, Slide2 ) => Slide1.slide.textContent.localeCompare( Slide2.slide.textContent ) );
+   * ```
+   *
+   * @param compare - A comparator function.
+   *
+   * @return `this`
+   */
+  sortSlides( compare: SlidesComparator ): this {
+    this._Components.Slides.sort( compare );
+    return this;
+  }
+
   /**
    * Checks the slider type.
    *
@@ -323,6 +601,103 @@ export class Splide {
     return this._options.type === type;
   }
 
+  /**
+   * Returns a plain object that represents the current state of the slider.
+   * The object can be serialized by `JSON.stringify()` and applied to the slider later by `setState()`.
+   *
+   * @example
+   * ```ts
+   * var splide = new Splide().mount();
+   * var state  = splide.getState();
+   *
+   * // After the DOM is re-created, the slider jumps to the slide at the stored index:
+   * new Splide().mount().setState( state );
+   * ```
+   *
+   * @return An object with the current state.
+   */
+  getState(): SerializedState {
+    const { Controller, Move, Autoplay, Options } = this._Components;
+    const index = Controller.getIndex();
+
+    return {
+      index,
+      prevIndex : Controller.getIndex( true ),
+      page      : Controller.toPage( index ),
+      breakpoint: Options.getBreakpoint() || null,
+      playing   : ! Autoplay.isPaused(),
+      position  : Move.getPosition(),
+    };
+  }
+
+  /**
+   * Applies the state provided by `getState()` to the slider without transition.
+   * The slider must be mounted in advance. Properties that are omitted are left as they are.
+   * The index is set directly without `beforemove`, `move` and `moved` events, since this is not navigation.
+   * The slider jumps to the slide by the current layout, and then refreshes itself to reflect the new index.
+   * The `position` in pixel is used only when the `index` is not provided, because it may be stale.
+   *
+   * @param state - A state object to apply.
+   *
+   * @return `this`
+   */
+  setState( state: Partial<SerializedState> ): this {
+    const { Controller, Move, Scroll, Autoplay } = this._Components;
+    const { index, prevIndex, position, playing } = state;
+
+    if ( ! isUndefined( index ) ) {
+      Scroll.cancel();
+
+      if ( this.state.is( MOVING ) ) {
+        Move.cancel();
+        this.state.set( IDLE );
+      }
+
+      const dest = clamp( index, 0, Controller.getEnd() );
+
+      Controller.setIndex( dest, prevIndex );
+      Move.jump( dest );
+      this.refresh();
+    } else if ( ! isUndefined( position ) && ! this.is( FADE ) ) {
+      Move.translate( position, true );
+    }
+
+    if ( this._options.autoplay && ! isUndefined( playing ) ) {
+      playing ? Autoplay.play() : Autoplay.pause();
+    }
+
+    return this;
+  }
+
+  /**
+   * Registers the listener invoked whenever the snapshot of the slider state changes.
+   * Combined with `getSnapshot()`, this is compatible with `useSyncExternalStore()` of React.
+   * Functions of `splide.store` can be passed as they are, since they do not depend on `this`.
+   *
+   * @example
+   * ```ts
+   * const { index, isEnd } = useSyncExternalStore( splide.store.subscribe, splide.store.getSnapshot );
+   * ```
+   *
+   * @param listener - A listener function.
+   *
+   * @return A function to unsubscribe the listener.
+   */
+  subscribe( listener: StoreListener ): () => void {
+    return this.store.subscribe( listener );
+  }
+
+  /**
+   * Returns the immutable snapshot of the slider state.
+   * The same object is returned until any value changes.
+   * Before the slider is mounted, this returns the frozen snapshot of the initial state.
+   *
+   * @return The current snapshot.
+   */
+  getSnapshot(): SplideSnapshot {
+    return this.store.getSnapshot();
+  }
+
   /**
    * Refreshes the slider.
    *
@@ -353,7 +728,15 @@ export class Splide {
 
       event.emit( EVENT_DESTROY );
       event.destroy();
-      completely && empty( this.splides );
+
+      if ( completely ) {
+        const { _instances } = Splide;
+        const index = _instances.indexOf( this );
+
+        empty( this.splides );
+        index > -1 && _instances.splice( index, 1 );
+      }
+
       state.set( DESTROYED );
     }
 
@@ -23,4 +23,28 @@ describe( 'Splide', () => {
     expect( options.type ).toBe( 'loop' );
     expect( options.waitForTransition ).toBe( false );
   } );
+
+  test( 'can register a handler that runs before internal handlers by priority.', () => {
+    const splide = init( { speed: 0 } );
+    const slide  = splide.Components.Slides.getAt( 1 ).slide;
+    const active: boolean[] = [];
+
+    splide.on( 'moved', () => { active.push( slide.classList.contains( 'is-active' ) ) }, 0 );
+    splide.on( 'moved', () => { active.push( slide.classList.contains( 'is-active' ) ) } );
+    splide.go( 1 );
+
+    expect( active ).toEqual( [ false, true ] );
+  } );
+
+  test( 'can register a handler that is invoked only once.', () => {
+    const splide   = init( { speed: 0 } );
+    const callback = jest.fn();
+
+    splide.once( 'moved', callback );
+    splide.go( 1 );
+    splide.go( 2 );
+
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+    expect( callback ).toHaveBeenCalledWith( 1, 0, 1 );
+  } );
 } );
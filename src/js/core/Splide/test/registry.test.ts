@@ -0,0 +1,83 @@
+import { buildHtml } from '../../../test';
+import { Splide } from '../Splide';
+
+
+describe( 'Splide', () => {
+  beforeEach( () => {
+    document.body.innerHTML = buildHtml( { id: 'slider1', json: '{ "perPage": 2 }' } )
+      + buildHtml( { id: 'slider2', json: '{ "type": "loop" }' } )
+      + buildHtml( { id: 'slider3' } );
+  } );
+
+  test( 'can mount all elements with the data attribute.', () => {
+    const splides = Splide.mountAll();
+
+    expect( splides.length ).toBe( 2 );
+    expect( splides[ 0 ].root.id ).toBe( 'slider1' );
+    expect( splides[ 0 ].options.perPage ).toBe( 2 );
+    expect( splides[ 1 ].root.id ).toBe( 'slider2' );
+    expect( splides[ 1 ].is( 'loop' ) ).toBe( true );
+
+    splides.forEach( splide => splide.destroy() );
+  } );
+
+  test( 'can mount other elements even if one of them has invalid JSON.', () => {
+    const spy = jest.spyOn( console, 'error' ).mockImplementation( jest.fn() );
+
+    document.body.innerHTML = buildHtml( { id: 'slider1', json: '{ invalid' } )
+      + buildHtml( { id: 'slider2', json: '{ "type": "loop" }' } );
+
+    const splides = Splide.mountAll();
+
+    expect( splides.length ).toBe( 1 );
+    expect( splides[ 0 ].root.id ).toBe( 'slider2' );
+    expect( spy ).toHaveBeenCalledTimes( 1 );
+
+    splides[ 0 ].destroy();
+    spy.mockRestore();
+  } );
+
+  test( 'can mount elements that match the selector.', () => {
+    const splides = Splide.mountAll( '#slider3' );
+
+    expect( splides.length ).toBe( 1 );
+    expect( splides[ 0 ].root.id ).toBe( 'slider3' );
+
+    splides[ 0 ].destroy();
+  } );
+
+  test( 'can find the mounted instance by the root element or its ID.', () => {
+    const splide = new Splide( '#slider1' ).mount();
+
+    expect( Splide.get( splide.root ) ).toBe( splide );
+    expect( Splide.get( 'slider1' ) ).toBe( splide );
+    expect( Splide.get( '#slider1' ) ).toBe( splide );
+    expect( Splide.get( 'slider2' ) ).toBeUndefined();
+    expect( Splide.get( 'missing' ) ).toBeUndefined();
+
+    splide.destroy();
+    expect( Splide.get( 'slider1' ) ).toBeUndefined();
+  } );
+
+  test( 'should not mount the element twice.', () => {
+    const splide  = new Splide( '#slider1' ).mount();
+    const splides = Splide.mountAll();
+
+    expect( splides[ 0 ] ).toBe( splide );
+    expect( () => new Splide( '#slider1' ).mount() ).toThrow();
+
+    splides.forEach( splide => splide.destroy() );
+  } );
+
+  test( 'should keep the instance registered while it is destroyed by breakpoints.', () => {
+    const splide = new Splide( '#slider1' ).mount();
+
+    splide.destroy( false );
+    expect( Splide.get( 'slider1' ) ).toBe( splide );
+
+    splide.mount();
+    expect( Splide.get( 'slider1' ) ).toBe( splide );
+
+    splide.destroy();
+  } );
+} );
@@ -0,0 +1,83 @@
+import { EVENT_BEFORE_MOVE, EVENT_MOVE, EVENT_MOVED } from '../../../constants/events';
+import { IDLE } from '../../../constants/states';
+import { init } from '../../../test';
+
+
+describe( 'Splide#getState() and Splide#setState()', () => {
+  test( 'can return the serializable state of the slider.', () => {
+    const splide = init( { width: 200, height: 100, speed: 0, perPage: 2 } );
+
+    splide.go( 4 );
+    splide.go( 6 );
+
+    const state = splide.getState();
+
+    expect( state ).toEqual( {
+      index     : 6,
+      prevIndex : 4,
+      page      : 3,
+      breakpoint: null,
+      playing   : false,
+      position  : splide.Components.Move.toPosition( 6, true ),
+    } );
+
+    expect( JSON.parse( JSON.stringify( state ) ) ).toEqual( state );
+  } );
+
+  test( 'can apply the state without transition and move events.', () => {
+    const state  = init( { width: 200, height: 100, speed: 0 } ).go( 3 ).go( 5 ).getState();
+    const splide = init( { width: 200, height: 100 } );
+    const callback = jest.fn();
+
+    splide.on( [ EVENT_MOVE, EVENT_MOVED ], callback );
+    splide.setState( state );
+
+    expect( splide.index ).toBe( 5 );
+    expect( splide.Components.Controller.getIndex( true ) ).toBe( 3 );
+    expect( splide.Components.Move.getPosition() ).toBe( state.position );
+    expect( splide.Components.Elements.list.style.transition ).toBe( '' );
+    expect( splide.Components.Slides.getAt( 5 ).slide.classList.contains( 'is-active' ) ).toBe( true );
+    expect( callback ).not.toHaveBeenCalled();
+  } );
+
+  test( 'should apply the index regardless of beforemove handlers and the stale position.', () => {
+    const state  = init( { width: 200, height: 100, speed: 0 } ).go( 5 ).getState();
+    const splide = init( { width: 400, height: 100 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_BEFORE_MOVE, ( index, prev, dest, guard ) => {
+      callback();
+      guard.cancel();
+    } );
+
+    splide.setState( state );
+
+    expect( splide.index ).toBe( 5 );
+    expect( splide.Components.Move.getPosition() ).toBe( splide.Components.Move.toPosition( 5, true ) );
+    expect( splide.Components.Move.getPosition() ).not.toBe( state.position );
+    expect( callback ).not.toHaveBeenCalled();
+  } );
+
+  test( 'can apply the position and the autoplay state.', () => {
+    const splide = init( { width: 200, height: 100, autoplay: true } );
+
+    splide.setState( { position: -150, playing: false } );
+
+    expect( splide.index ).toBe( 0 );
+    expect( splide.Components.Move.getPosition() ).toBe( -150 );
+    expect( splide.Components.Autoplay.isPaused() ).toBe( true );
+
+    splide.setState( { playing: true } );
+    expect( splide.Components.Autoplay.isPaused() ).toBe( false );
+  } );
+
+  test( 'can interrupt the transition in progress.', () => {
+    const splide = init( { width: 200, height: 100 } );
+
+    splide.go( 1 );
+    splide.setState( { index: 7 } );
+
+    expect( splide.index ).toBe( 7 );
+    expect( splide.state.is( IDLE ) ).toBe( true );
+  } );
+} );
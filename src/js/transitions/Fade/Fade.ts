@@ -1,8 +1,8 @@
-import { EVENT_MOUNTED, EVENT_REFRESH } from '../../constants/events';
+import { EVENT_MOUNTED, EVENT_REFRESH, EVENT_SLIDES_ADDED } from '../../constants/events';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
-import { Components, Options, TransitionComponent } from '../../types';
-import { nextTick, noop, rect, unit, style } from '../../utils';
+import { Components, NavigationOptions, Options, TransitionComponent } from '../../types';
+import { isUndefined, nextTick, noop, rect, unit, style } from '../../utils';
 
 
 /**
@@ -24,9 +24,9 @@ export function Fade( Splide: Splide, Components: Components, options: Options )
    * The nextTick disables the initial fade transition of the first slide.
    */
   function mount(): void {
-    on( [ EVENT_MOUNTED, EVENT_REFRESH ], () => {
+    on( [ EVENT_MOUNTED, EVENT_REFRESH, EVENT_SLIDES_ADDED ], () => {
       nextTick( () => {
-        Components.Slides.style( 'transition', `opacity ${ options.speed }ms ${ options.easing }` );
+        apply();
       } );
     } );
   }
@@ -35,12 +35,14 @@ export function Fade( Splide: Splide, Components: Components, options: Options )
    * Starts the transition.
    * Explicitly sets the track height to avoid it will collapse in Safari.
    *
-   * @param index - A destination index.
-   * @param done  - The callback function that must be called after the transition ends.
+   * @param index      - A destination index.
+   * @param done       - The callback function that must be called after the transition ends.
+   * @param navigation - Optional. Options that override the speed and the easing of this transition.
    */
-  function start( index: number, done: () => void ): void {
+  function start( index: number, done: () => void, navigation?: NavigationOptions ): void {
     const { track } = Components.Elements;
     style( track, 'height', unit( rect( track ).height ) );
+    apply( navigation );
 
     nextTick( () => {
       done();
@@ -48,6 +50,17 @@ export function Fade( Splide: Splide, Components: Components, options: Options )
     } );
   }
 
+  /**
+   * Applies the opacity transition to slides.
+   * Options for the move take precedence over `speed` and `easing` options.
+   *
+   * @param navigation - Optional. Options for the move.
+   */
+  function apply( navigation: NavigationOptions = {} ): void {
+    const speed = navigation.instant ? 0 : isUndefined( navigation.speed ) ? options.speed : navigation.speed;
+    Components.Slides.style( 'transition', `opacity ${ speed }ms ${ navigation.easing || options.easing }` );
+  }
+
   return {
     mount,
     start,
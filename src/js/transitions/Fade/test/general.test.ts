@@ -0,0 +1,17 @@
+import { init, wait } from '../../../test';
+
+
+describe( 'Fade', () => {
+  test( 'can override the speed and the easing of the opacity transition for a single move.', async () => {
+    const splide = init( { type: 'fade', speed: 400, easing: 'ease' } );
+    const slide  = splide.Components.Slides.getAt( 0 ).slide;
+
+    splide.go( 1, { speed: 1000, easing: 'linear' } );
+    expect( slide.style.transition ).toBe( 'opacity 1000ms linear' );
+
+    await wait();
+
+    splide.go( 2, { instant: true } );
+    expect( slide.style.transition ).toBe( 'opacity 0ms ease' );
+  } );
+} );
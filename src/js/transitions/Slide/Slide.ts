@@ -1,8 +1,18 @@
 import { SLIDE } from '../../constants/types';
 import { EventInterface } from '../../constructors';
 import { Splide } from '../../core/Splide/Splide';
-import { Components, Options, TransitionComponent } from '../../types';
-import { abs, style } from '../../utils';
+import { Components, NavigationOptions, Options, TransitionComponent } from '../../types';
+import { abs, clamp, isUndefined, max, style } from '../../utils';
+import { Bezier, formatBezier, parseBezier, slopeAt } from './bezier';
+import {
+  DEFAULT_MAX_SPEED,
+  DEFAULT_MIN_SPEED,
+  DEFAULT_VELOCITY,
+  RETARGET_THRESHOLD,
+  RETARGET_X1,
+  RETARGET_Y1_LIMIT,
+  WATCHDOG_MARGIN,
+} from './constants';
 
 
 /**
@@ -20,40 +30,75 @@ export function Slide( Splide: Splide, Components: Components, options: Options
   const { bind } = EventInterface( Splide );
   const { Move, Controller } = Components;
   const { list } = Components.Elements;
+  const { now } = Date;
 
   /**
    * Holds the `done` callback function.
    */
   let endCallback: () => void;
 
+  /**
+   * Holds the timer that forcibly ends the transition if the `transitionend` event does not fire.
+   */
+  let watchdog: ReturnType<typeof setTimeout>;
+
+  /**
+   * Holds the active transition as `[ from, to, start time, duration, curve ]`.
+   */
+  let timeline: [ number, number, number, number, Bezier | null ];
+
+  /**
+   * Holds the velocity of the canceled transition and the time when it is canceled.
+   */
+  let interrupted: [ number, number ];
+
   /**
    * Called when the component is mounted.
    */
   function mount(): void {
     bind( list, 'transitionend', e => {
-      if ( e.target === list && endCallback ) {
-        cancel();
-        endCallback();
+      if ( e.target === list ) {
+        finish();
       }
     } );
   }
 
+  /**
+   * Destroys the component.
+   */
+  function destroy(): void {
+    clearTimeout( watchdog );
+  }
+
   /**
    * Starts the transition.
    * The Move component calls this method just before the slider moves.
+   * If the slider is still moving, the new transition begins with the velocity of the current one.
    *
-   * @param index - A destination index.
-   * @param done  - The callback function that must be called after the transition ends.
+   * @param index      - A destination index.
+   * @param done       - The callback function that must be called after the transition ends.
+   * @param navigation - Optional. Options that override the speed and the easing of this transition.
    */
-  function start( index: number, done: () => void ): void {
+  function start( index: number, done: () => void, navigation: NavigationOptions = {} ): void {
     const destination = Move.toPosition( index, true );
     const position    = Move.getPosition();
-    const speed       = getSpeed( index );
+    const speed       = getSpeed( index, abs( destination - position ), navigation );
+    const timing      = navigation.easing || options.easing;
+    const velocity    = getVelocity();
+
+    reset();
 
     if ( abs( destination - position ) >= 1 && speed >= 1 ) {
-      apply( `transform ${ speed }ms ${ options.easing }` );
+      const curve  = parseBezier( timing );
+      const slope  = velocity * speed / ( destination - position );
+      const easing = curve && slope ? retarget( curve, slope ) : null;
+
+      apply( `transform ${ speed }ms ${ easing ? formatBezier( easing ) : timing }` );
       Move.translate( destination, true );
+
+      timeline    = [ position, destination, now(), speed, easing || curve ];
       endCallback = done;
+      watchdog    = setTimeout( finish, speed + WATCHDOG_MARGIN );
     } else {
       Move.jump( index );
       done();
@@ -62,19 +107,92 @@ export function Slide( Splide: Splide, Components: Components, options: Options
 
   /**
    * Cancels the transition.
+   * Retains the current velocity so that the following transition can inherit it.
    */
   function cancel(): void {
+    interrupted = [ getVelocity(), now() ];
+    reset();
     apply( '' );
   }
 
+  /**
+   * Ends the active transition and invokes the `done` callback only once.
+   * Called on `transitionend` or by the watchdog timer.
+   */
+  function finish(): void {
+    const callback = endCallback;
+
+    if ( callback ) {
+      reset();
+      apply( '' );
+      callback();
+    }
+  }
+
+  /**
+   * Clears the active transition data and the watchdog timer.
+   */
+  function reset(): void {
+    clearTimeout( watchdog );
+    endCallback = null;
+    timeline    = null;
+  }
+
+  /**
+   * Returns the current velocity of the slider in pixel per millisecond.
+   * If the transition has been just canceled, returns the velocity at the moment.
+   *
+   * @return The current velocity.
+   */
+  function getVelocity(): number {
+    if ( interrupted && now() - interrupted[ 1 ] <= RETARGET_THRESHOLD ) {
+      return interrupted[ 0 ];
+    }
+
+    if ( timeline ) {
+      const [ from, to, startTime, duration, curve ] = timeline;
+      const rate = ( now() - startTime ) / duration;
+
+      if ( curve && rate < 1 ) {
+        return ( to - from ) * slopeAt( curve, max( rate, 0 ) ) / duration;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Modifies the first control point of the curve
+   * so that the initial slope matches the provided one.
+   *
+   * @param curve - Control points of the original curve.
+   * @param slope - The initial slope to match.
+   *
+   * @return Control points of the modified curve.
+   */
+  function retarget( curve: Bezier, slope: number ): Bezier {
+    const x1 = curve[ 0 ] > 0 ? curve[ 0 ] : RETARGET_X1;
+    return [ x1, clamp( x1 * slope, -RETARGET_Y1_LIMIT, RETARGET_Y1_LIMIT ), curve[ 2 ], curve[ 3 ] ];
+  }
+
   /**
    * Returns the transition speed.
    *
-   * @param index - A destination index.
+   * @param index      - A destination index.
+   * @param distance   - The distance to travel in pixel.
+   * @param navigation - Options for this transition.
    */
-  function getSpeed( index: number ): number {
+  function getSpeed( index: number, distance: number, navigation: NavigationOptions ): number {
     const { rewindSpeed } = options;
 
+    if ( navigation.instant ) {
+      return 0;
+    }
+
+    if ( ! isUndefined( navigation.speed ) ) {
+      return navigation.speed;
+    }
+
     if ( Splide.is( SLIDE ) && rewindSpeed ) {
       const prev = Controller.getIndex( true );
       const end  = Controller.getEnd();
@@ -84,6 +202,11 @@ export function Slide( Splide: Splide, Components: Components, options: Options
       }
     }
 
+    if ( options.speedMode === 'distance' ) {
+      const { velocity = DEFAULT_VELOCITY, minSpeed = DEFAULT_MIN_SPEED, maxSpeed = DEFAULT_MAX_SPEED } = options;
+      return clamp( distance / velocity, minSpeed, maxSpeed );
+    }
+
     return options.speed;
   }
 
@@ -98,6 +221,7 @@ export function Slide( Splide: Splide, Components: Components, options: Options
 
   return {
     mount,
+    destroy,
     start,
     cancel,
   };
@@ -0,0 +1,136 @@
+import { abs, clamp } from '../../utils';
+
+
+/**
+ * The type for control points of the cubic Bézier curve as `[ x1, y1, x2, y2 ]`.
+ *
+ * @since 3.7.0
+ */
+export type Bezier = [ number, number, number, number ];
+
+/**
+ * Control points of CSS easing keywords.
+ *
+ * @since 3.7.0
+ */
+const KEYWORDS: Record<string, Bezier> = {
+  linear        : [ 0, 0, 1, 1 ],
+  ease          : [ 0.25, 0.1, 0.25, 1 ],
+  'ease-in'     : [ 0.42, 0, 1, 1 ],
+  'ease-out'    : [ 0, 0, 0.58, 1 ],
+  'ease-in-out' : [ 0.42, 0, 0.58, 1 ],
+};
+
+/**
+ * Parses the CSS easing value and returns control points of the curve.
+ *
+ * @param easing - A CSS easing value, such as `'ease'` or `'cubic-bezier(0.25, 1, 0.5, 1)'`.
+ *
+ * @return An array with control points if the value is a cubic Bézier curve, or otherwise `null`.
+ */
+export function parseBezier( easing: string ): Bezier | null {
+  const value = ( easing || '' ).trim();
+
+  if ( KEYWORDS[ value ] ) {
+    return KEYWORDS[ value ];
+  }
+
+  const [ , params ] = value.match( /^cubic-bezier\(([^)]+)\)$/ ) || [];
+  const points = params ? params.split( ',' ).map( Number ) : [];
+
+  return points.length === 4 && points.every( point => ! isNaN( point ) ) ? points as Bezier : null;
+}
+
+/**
+ * Converts control points to the CSS easing value.
+ *
+ * @param bezier - Control points.
+ *
+ * @return A CSS easing value.
+ */
+export function formatBezier( bezier: Bezier ): string {
+  return `cubic-bezier(${ bezier.map( point => +point.toFixed( 4 ) ).join( ',' ) })`;
+}
+
+/**
+ * Returns the slope of the curve, that is the ratio of the progress to the elapsed time, at the specified time.
+ *
+ * @param bezier - Control points.
+ * @param x      - The elapsed time rate between 0 and 1.
+ *
+ * @return The slope of the curve.
+ */
+export function slopeAt( bezier: Bezier, x: number ): number {
+  const [ x1, y1, x2, y2 ] = bezier;
+  const t  = solve( x1, x2, clamp( x, 0, 1 ) );
+  const dx = derivative( x1, x2, t );
+  const dy = derivative( y1, y2, t );
+  return abs( dx ) > 1e-6 ? dy / dx : 0;
+}
+
+/**
+ * Finds the curve parameter where the x coordinate matches the provided value
+ * by the Newton's method with falling back to bisection.
+ *
+ * @param p1 - The x coordinate of the first control point.
+ * @param p2 - The x coordinate of the second control point.
+ * @param x  - A target x coordinate.
+ *
+ * @return The curve parameter between 0 and 1.
+ */
+function solve( p1: number, p2: number, x: number ): number {
+  let t = x;
+
+  for ( let i = 0; i < 8; i++ ) {
+    const diff = coord( p1, p2, t ) - x;
+    const dx   = derivative( p1, p2, t );
+
+    if ( abs( diff ) < 1e-6 ) {
+      return t;
+    }
+
+    if ( abs( dx ) < 1e-6 ) {
+      break;
+    }
+
+    t -= diff / dx;
+  }
+
+  let lower = 0;
+  let upper = 1;
+
+  t = x;
+
+  while ( upper - lower > 1e-6 ) {
+    coord( p1, p2, t ) < x ? ( lower = t ) : ( upper = t );
+    t = ( lower + upper ) / 2;
+  }
+
+  return t;
+}
+
+/**
+ * Returns the coordinate of the curve at the parameter `t`.
+ *
+ * @param p1 - The coordinate of the first control point.
+ * @param p2 - The coordinate of the second control point.
+ * @param t  - A curve parameter.
+ *
+ * @return The coordinate.
+ */
+function coord( p1: number, p2: number, t: number ): number {
+  return ( ( ( 1 - 3 * p2 + 3 * p1 ) * t + ( 3 * p2 - 6 * p1 ) ) * t + 3 * p1 ) * t;
+}
+
+/**
+ * Returns the derivative of the coordinate at the parameter `t`.
+ *
+ * @param p1 - The coordinate of the first control point.
+ * @param p2 - The coordinate of the second control point.
+ * @param t  - A curve parameter.
+ *
+ * @return The derivative.
+ */
+function derivative( p1: number, p2: number, t: number ): number {
+  return 3 * ( 1 - 3 * p2 + 3 * p1 ) * t * t + 2 * ( 3 * p2 - 6 * p1 ) * t + 3 * p1;
+}
@@ -0,0 +1,52 @@
+/**
+ * The extra duration to wait for the `transitionend` event before forcibly ending the transition.
+ * The event never fires when the document is hidden or the slider is not displayed.
+ *
+ * @since 3.7.0
+ */
+export const WATCHDOG_MARGIN = 100;
+
+/**
+ * The max duration from cancellation of the transition to the next start
+ * for the new transition to inherit the velocity of the canceled one.
+ *
+ * @since 3.7.0
+ */
+export const RETARGET_THRESHOLD = 16;
+
+/**
+ * The x coordinate of the first control point for a retargeted curve
+ * if the original easing does not provide a positive value.
+ *
+ * @since 3.7.0
+ */
+export const RETARGET_X1 = 0.25;
+
+/**
+ * The limit of the y coordinate of the first control point for a retargeted curve.
+ * Prevents the slider from overshooting too much when it is interrupted near the destination.
+ *
+ * @since 3.7.0
+ */
+export const RETARGET_Y1_LIMIT = 2;
+
+/**
+ * The default velocity in pixel per millisecond for the `'distance'` speed mode.
+ *
+ * @since 3.7.0
+ */
+export const DEFAULT_VELOCITY = 1.5;
+
+/**
+ * The default minimum duration for the `'distance'` speed mode.
+ *
+ * @since 3.7.0
+ */
+export const DEFAULT_MIN_SPEED = 200;
+
+/**
+ * The default maximum duration for the `'distance'` speed mode.
+ *
+ * @since 3.7.0
+ */
+export const DEFAULT_MAX_SPEED = 1200;
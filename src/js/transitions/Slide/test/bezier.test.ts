@@ -0,0 +1,27 @@
+import { formatBezier, parseBezier, slopeAt } from '../bezier';
+
+
+describe( 'bezier', () => {
+  test( 'can parse the CSS easing value.', () => {
+    expect( parseBezier( 'cubic-bezier(0.25, 1, 0.5, 1)' ) ).toEqual( [ 0.25, 1, 0.5, 1 ] );
+    expect( parseBezier( 'ease-in-out' ) ).toEqual( [ 0.42, 0, 0.58, 1 ] );
+    expect( parseBezier( 'linear' ) ).toEqual( [ 0, 0, 1, 1 ] );
+  } );
+
+  test( 'should return null if the value is not a cubic Bézier curve.', () => {
+    expect( parseBezier( 'steps(4, end)' ) ).toBeNull();
+    expect( parseBezier( 'cubic-bezier(0.25, 1, 0.5)' ) ).toBeNull();
+    expect( parseBezier( '' ) ).toBeNull();
+  } );
+
+  test( 'can format control points.', () => {
+    expect( formatBezier( [ 0.25, 1.234567, 0.5, 1 ] ) ).toBe( 'cubic-bezier(0.25,1.2346,0.5,1)' );
+  } );
+
+  test( 'can compute the slope of the curve.', () => {
+    expect( slopeAt( [ 0, 0, 1, 1 ], 0.3 ) ).toBeCloseTo( 1 );
+    expect( slopeAt( [ 0.25, 1, 0.5, 1 ], 0 ) ).toBeCloseTo( 4 );
+    expect( slopeAt( [ 0.25, 1, 0.5, 1 ], 1 ) ).toBeCloseTo( 0 );
+    expect( slopeAt( [ 0.42, 0, 0.58, 1 ], 0.5 ) ).toBeGreaterThan( 1 );
+  } );
+} );
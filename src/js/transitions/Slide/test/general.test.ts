@@ -0,0 +1,177 @@
+import { EVENT_MOVED } from '../../../constants/events';
+import { IDLE } from '../../../constants/states';
+import { fire, init, wait } from '../../../test';
+import { formatBezier, parseBezier, slopeAt } from '../bezier';
+import { RETARGET_X1, WATCHDOG_MARGIN } from '../constants';
+
+
+describe( 'Slide', () => {
+  test( 'can end the transition by the watchdog timer if the transitionend event does not fire.', async () => {
+    const speed    = 50;
+    const splide   = init( { width: 200, height: 100, speed } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_MOVED, callback );
+    splide.go( '>' );
+
+    await wait( speed + WATCHDOG_MARGIN + 50 );
+
+    expect( splide.state.is( IDLE ) ).toBe( true );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+
+    fire( splide.Components.Elements.list, 'transitionend' );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'should end the transition only once when the watchdog timer and the transitionend event race.', () => {
+    jest.useFakeTimers();
+
+    const speed    = 400;
+    const splide   = init( { width: 200, height: 100, speed } );
+    const { list } = splide.Components.Elements;
+    const callback = jest.fn();
+
+    splide.on( EVENT_MOVED, callback );
+
+    splide.go( '>' );
+    jest.advanceTimersByTime( speed + WATCHDOG_MARGIN );
+    fire( list, 'transitionend' );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+
+    splide.go( '>' );
+    fire( list, 'transitionend' );
+    jest.advanceTimersByTime( speed + WATCHDOG_MARGIN );
+    expect( callback ).toHaveBeenCalledTimes( 2 );
+    expect( splide.state.is( IDLE ) ).toBe( true );
+
+    jest.useRealTimers();
+  } );
+
+  test( 'should not end the transition twice.', () => {
+    const splide   = init( { width: 200, height: 100 } );
+    const { list } = splide.Components.Elements;
+    const callback = jest.fn();
+
+    splide.on( EVENT_MOVED, callback );
+    splide.go( '>' );
+
+    fire( list, 'transitionend' );
+    fire( list, 'transitionend' );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'can retarget the transition with inheriting the current velocity.', async () => {
+    const splide   = init( { width: 200, height: 100, speed: 1000, waitForTransition: false } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( 1 );
+    expect( list.style.transition ).toBe( `transform 1000ms ${ splide.options.easing }` );
+
+    await wait( 50 );
+
+    splide.go( 2 );
+    expect( list.style.transition ).toMatch( /^transform 1000ms cubic-bezier\(0\.25,[\d.]+,0\.5,1\)$/ );
+    expect( list.style.transition ).not.toBe( `transform 1000ms ${ splide.options.easing }` );
+
+    fire( list, 'transitionend' );
+    expect( splide.index ).toBe( 2 );
+    expect( list.style.transition ).toBe( '' );
+  } );
+
+  test( 'can compute the first control point from the inherited velocity.', () => {
+    jest.useFakeTimers();
+
+    const speed    = 1000;
+    const elapsed  = 50;
+    const splide   = init( { width: 200, height: 100, speed, waitForTransition: false } );
+    const { list } = splide.Components.Elements;
+    const curve    = parseBezier( splide.options.easing );
+
+    splide.go( 1 );
+    jest.advanceTimersByTime( elapsed );
+    splide.go( 2 );
+
+    // Both moves travel 200px in the same duration, so the slope equals the one of the easing at the elapsed rate.
+    const y1 = RETARGET_X1 * slopeAt( curve, elapsed / speed );
+
+    expect( list.style.transition ).toBe( `transform ${ speed }ms ${ formatBezier( [ RETARGET_X1, y1, curve[ 2 ], curve[ 3 ] ] ) }` );
+    expect( list.style.transition ).toBe( `transform ${ speed }ms cubic-bezier(0.25,0.8675,0.5,1)` );
+
+    jest.useRealTimers();
+  } );
+
+  test( 'should not retarget the transition if the slider is not moving.', () => {
+    const splide   = init( { width: 200, height: 100, waitForTransition: false } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( 1 );
+    fire( list, 'transitionend' );
+
+    splide.go( 2 );
+    expect( list.style.transition ).toBe( `transform 400ms ${ splide.options.easing }` );
+  } );
+
+  test( 'can override the speed and the easing for a single move.', () => {
+    const splide   = init( { width: 200, height: 100 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( 1, { speed: 800, easing: 'linear' } );
+    expect( list.style.transition ).toBe( 'transform 800ms linear' );
+
+    fire( list, 'transitionend' );
+
+    splide.go( 2 );
+    expect( list.style.transition ).toBe( `transform 400ms ${ splide.options.easing }` );
+  } );
+
+  test( 'can move the slider without transition by the instant option.', () => {
+    const splide   = init( { width: 200, height: 100 } );
+    const callback = jest.fn();
+
+    splide.on( EVENT_MOVED, callback );
+    splide.go( 2, { instant: true } );
+
+    expect( splide.index ).toBe( 2 );
+    expect( splide.Components.Elements.list.style.transition ).toBe( '' );
+    expect( callback ).toHaveBeenCalledTimes( 1 );
+  } );
+
+  test( 'can use the rewind speed when the slider rewinds forward.', () => {
+    const splide   = init( { width: 200, height: 100, rewind: 'forward', rewindSpeed: 1200, start: 9 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( '>' );
+    expect( splide.index ).toBe( 0 );
+    expect( list.style.transition ).toBe( `transform 1200ms ${ splide.options.easing }` );
+
+    fire( list, 'transitionend' );
+
+    splide.go( '<' );
+    expect( splide.index ).toBe( 9 );
+    expect( list.style.transition ).toBe( `transform 1200ms ${ splide.options.easing }` );
+
+    fire( list, 'transitionend' );
+
+    splide.go( '<' );
+    expect( list.style.transition ).toBe( `transform 400ms ${ splide.options.easing }` );
+  } );
+
+  test( 'can scale the duration with the distance if the speedMode is "distance".', () => {
+    const splide   = init( { width: 200, height: 100, speedMode: 'distance', velocity: 0.5, maxSpeed: 1000 } );
+    const { list } = splide.Components.Elements;
+
+    splide.go( 1 );
+    expect( list.style.transition ).toBe( `transform 400ms ${ splide.options.easing }` );
+
+    fire( list, 'transitionend' );
+
+    splide.go( 3 );
+    expect( list.style.transition ).toBe( `transform 800ms ${ splide.options.easing }` );
+
+    fire( list, 'transitionend' );
+
+    splide.go( 0, { easing: 'linear' } );
+    expect( list.style.transition ).toBe( 'transform 1000ms linear' );
+  } );
+} );
+
@@ -3,7 +3,9 @@ import { AutoplayComponent } from '../components/Autoplay/Autoplay';
 import { ClonesComponent } from '../components/Clones/Clones';
 import { ControllerComponent } from '../components/Controller/Controller';
 import { CoverComponent } from '../components/Cover/Cover';
+import { DeeplinkComponent } from '../components/Deeplink/Deeplink';
 import { DirectionComponent } from '../components/Direction/Direction';
+import { DomEventsComponent } from '../components/DomEvents/DomEvents';
 import { DragComponent } from '../components/Drag/Drag';
 import { ElementsComponent } from '../components/Elements/Elements';
 import { KeyboardComponent } from '../components/Keyboard/Keyboard';
@@ -11,11 +13,18 @@ import { LayoutComponent } from '../components/Layout/Layout';
 import { LazyLoadComponent } from '../components/LazyLoad/LazyLoad';
 import { LiveComponent } from '../components/Live/Live';
 import { MoveComponent } from '../components/Move/Move';
+import { ObserverComponent } from '../components/Observer/Observer';
 import { OptionsComponent } from '../components/Options/Options';
 import { PaginationComponent } from '../components/Pagination/Pagination';
+import { PersistComponent } from '../components/Persist/Persist';
+import { ProgressComponent } from '../components/Progress/Progress';
+import { RearrangeComponent } from '../components/Rearrange/Rearrange';
 import { ScrollComponent } from '../components/Scroll/Scroll';
+import { SnapshotComponent } from '../components/Snapshot/Snapshot';
 import { SlidesComponent } from '../components/Slides/Slides';
+import { SourceComponent } from '../components/Source/Source';
 import { SyncComponent } from '../components/Sync/Sync';
+import { VirtualComponent } from '../components/Virtual/Virtual';
 import { WheelComponent } from '../components/Wheel/Wheel';
 import { BaseComponent, TransitionComponent } from './general';
 
@@ -46,5 +55,14 @@ export interface Components {
   Sync: SyncComponent;
   Wheel: WheelComponent;
   Live: LiveComponent;
+  Persist: PersistComponent;
+  Deeplink: DeeplinkComponent;
+  Snapshot: SnapshotComponent;
+  Progress: ProgressComponent;
+  DomEvents: DomEventsComponent;
+  Observer: ObserverComponent;
+  Virtual: VirtualComponent;
+  Source: SourceComponent;
+  Rearrange: RearrangeComponent;
   Transition: TransitionComponent;
 }
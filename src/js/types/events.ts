@@ -1,3 +1,4 @@
+import { MoveGuard } from '../components/Controller/Controller';
 import { PaginationData, PaginationItem } from '../components/Pagination/Pagination';
 import { SlideComponent } from '../components/Slides/Slide';
 import { Splide } from '../core/Splide/Splide';
@@ -13,6 +14,7 @@ export interface EventMap {
   'mounted': () => void;
   'ready': () => void;
   'click': ( Slide: SlideComponent, e: MouseEvent ) => void;
+  'beforemove': ( index: number, prev: number, dest: number, guard: MoveGuard ) => void | PromiseLike<unknown>;
   'move': ( index: number, prev: number, dest: number ) => void;
   'moved': ( index: number, prev: number, dest: number ) => void;
   'shifted': () => void;
@@ -40,4 +42,14 @@ export interface EventMap {
   'autoplay:playing': ( rate: number ) => void;
   'autoplay:pause': () => void;
   'lazyload:loaded': ( img: HTMLImageElement, Slide: SlideComponent ) => void;
+  'reach:beginning': () => void;
+  'reach:end': () => void;
+  'fromedge': ( edge: 'beginning' | 'end' ) => void;
+  'progress': ( progress: number ) => void;
+  'slides:added': ( Slides: SlideComponent[] ) => void;
+  'slides:removed': ( Slides: SlideComponent[] ) => void;
+  'slides:moved': ( Slides: SlideComponent[] ) => void;
+  'slides:rendered': ( Slides: SlideComponent[] ) => void;
+  'source:loaded': ( Slides: SlideComponent[] ) => void;
+  'source:error': ( error: any ) => void;
 }
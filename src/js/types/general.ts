@@ -34,10 +34,68 @@ export interface BaseComponent {
  * @since 3.0.0
  */
 export interface TransitionComponent extends BaseComponent {
-  start( index: number, done: () => void ): void;
+  start( index: number, done: () => void, navigation?: NavigationOptions ): void;
   cancel(): void;
 }
 
+/**
+ * The interface for options that override the transition of a single move.
+ *
+ * @since 3.7.0
+ */
+export interface NavigationOptions {
+  /**
+   * The transition speed in milliseconds for the move, instead of `speed` or `rewindSpeed` options.
+   */
+  speed?: number;
+
+  /**
+   * The CSS timing function for the move, instead of the `easing` option.
+   */
+  easing?: string;
+
+  /**
+   * The easing function for the move, instead of the `easingFunc` option.
+   * Only the Scroll component, which is used by the `useScroll` option, uses this.
+   */
+  easingFunc?: ( t: number ) => number;
+
+  /**
+   * Moves the slider without any transition if `true`.
+   */
+  instant?: boolean;
+}
+
+/**
+ * The interface for the serializable snapshot of the slider state.
+ * The `page` and the `breakpoint` are informative, and ignored by `Splide#setState()`.
+ *
+ * @since 3.7.0
+ */
+export interface SerializedState {
+  index: number;
+  prevIndex: number;
+  page: number;
+  breakpoint: string | null;
+  playing: boolean;
+  position: number;
+}
+
+/**
+ * The interface for the immutable snapshot of the derived slider state.
+ * The `progress` is the ratio of the index to the end index between 0 and 1.
+ *
+ * @since 3.7.0
+ */
+export interface SplideSnapshot {
+  index: number;
+  page: number;
+  isBeginning: boolean;
+  isEnd: boolean;
+  progress: number;
+  playing: boolean;
+}
+
 /**
  * The interface for info of a splide instance to sync with.
  *
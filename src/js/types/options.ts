@@ -1,4 +1,7 @@
+import { PersistStorage } from '../components/Persist/Persist';
+import { VirtualOptions } from '../components/Virtual/Virtual';
 import { I18N } from '../constants/i18n';
+import { SlideContent } from '../renderer/types/types';
 
 
 /**
@@ -27,6 +30,21 @@ export interface Options extends ResponsiveOptions {
    */
   waitForTransition?: boolean;
 
+  /**
+   * Determines how to handle requests for moving the slider while it waits for the transition.
+   * - `false`: Drops requests
+   * - `true` or `'buffer'`: Holds requests and executes them one by one after each transition ends
+   * - `'coalesce'`: Holds requests with merging successive offsets in the same direction, such as `'+1'` and `'+2'` into `'+3'`.
+   *   `'>'` and `'<'` are held one by one, since they depend on the index at the time
+   */
+  queue?: boolean | 'buffer' | 'coalesce';
+
+  /**
+   * The max number of requests to hold while the slider is moving. The default value is `5`.
+   * Requests over this number are rejected as busy.
+   */
+  queueDepth?: number;
+
   /**
    * If `true`, the width of slides are determined by their width.
    * The `perPage` and `perMove` options should be `1`.
@@ -41,8 +59,9 @@ export interface Options extends ResponsiveOptions {
 
   /**
    * The start index.
+   * Also accepts the element ID as `'#id'` or the slug as `'slug:name'` provided by the `data-splide-slug` attribute.
    */
-  start?: number;
+  start?: number | string;
 
   /**
    * Changes the arrow SVG path, like 'm7.61 0.807-2.12...'.
@@ -166,6 +185,87 @@ export interface Options extends ResponsiveOptions {
    */
   noDrag?: string;
 
+  /**
+   * Observes the list element and refreshes the slider when slides are directly added or removed.
+   * Multiple mutations are batched into one refresh per frame.
+   */
+  observe?: boolean;
+
+  /**
+   * Emits the `refresh` event after `add()` or `remove()`, which rebuilds all slides as versions before 3.7.0 do.
+   * Since 3.7.0, these methods update only affected slides and emit `slides:added` or `slides:removed` instead of `refresh`.
+   * Enable this for extensions or handlers that still detect new slides by the `refresh` event.
+   */
+  refreshOnChange?: boolean;
+
+  /**
+   * Renders only slides around the current position instead of keeping all of them in the DOM.
+   * All slides are assumed to have the same size as the rendered one.
+   * This only works with the `slide` type, and can not be changed after mount.
+   * Slides can not be added, removed, replaced, filtered or reordered in this mode, and the `source` option is ignored.
+   * - `true`: Virtualizes slides in the markup
+   * - An object: Renders `length` slides by the `render` function, or virtualizes slides in the markup if omitted
+   */
+  virtual?: boolean | VirtualOptions;
+
+  /**
+   * An async function that provides contents of slides to append as the user approaches the end.
+   * The offset starts from the number of slides in the markup.
+   * A placeholder slide is shown at the end until the function returns fewer contents than the `limit`.
+   * This does not work with the `loop` type and in the virtual mode.
+   */
+  source?: ( offset: number, limit: number ) => Promise<SlideContent[]>;
+
+  /**
+   * The number of slides to request from the `source` function at once.
+   */
+  sourceLimit?: number;
+
+  /**
+   * Mirrors internal events as bubbling `CustomEvent`s on the root element, such as `splide:move`.
+   * Serializable arguments are provided as an array by `detail`.
+   * Also accepts `splide:command:go`, `splide:command:play`, `splide:command:pause` and `splide:command:refresh` dispatched to the root element.
+   * - `true`: Mirrors the default set of events.
+   * - An array: Mirrors the specified events.
+   */
+  domEvents?: boolean | string[];
+
+  /**
+   * Saves the current index to the storage and restores it on the next page load.
+   * The key is derived from the root ID.
+   * - `true` or `'session'`: Uses `sessionStorage`.
+   * - `'local'`: Uses `localStorage`.
+   */
+  persist?: boolean | 'session' | 'local';
+
+  /**
+   * Determines whether to persist the state that autoplay is paused by the user or not.
+   */
+  persistAutoplay?: boolean;
+
+  /**
+   * The storage to use instead of Web Storage, which has `getItem()`, `setItem()` and `removeItem()` methods.
+   */
+  persistStorage?: PersistStorage;
+
+  /**
+   * Links the URL to the active slide by the slug of the slide (`data-splide-slug`) or the slide ID.
+   * - `true` or `'hash'`: Writes the name to the hash, such as `#summer`.
+   * - `'query'`: Writes the name to the query parameter specified by `deeplinkParam`, such as `?slide=summer`.
+   * On mount, the slider starts from the slide that the URL refers to.
+   */
+  deeplink?: boolean | 'hash' | 'query';
+
+  /**
+   * The name of the query parameter for the `'query'` deeplink mode. The default value is `'slide'`.
+   */
+  deeplinkParam?: string;
+
+  /**
+   * Determines whether to add a new history entry by `pushState()` on every move instead of `replaceState()`.
+   */
+  deeplinkPush?: boolean;
+
   /**
    * Enables the live region by `aria-live`.
    * If `true`, screen readers will read a content of each slide whenever slide changes.
@@ -225,14 +325,41 @@ export interface ResponsiveOptions {
 
   /**
    * Determines whether to rewind the slider or not.
+   * If `'forward'`, the slide slider keeps moving in the same direction to the other edge through temporary clones.
    */
-  rewind?: boolean;
+  rewind?: boolean | 'forward';
 
   /**
    * The transition speed on rewind in milliseconds.
+   * This also applies when the slider rewinds forward through temporary clones.
    */
   rewindSpeed?: number;
 
+  /**
+   * Determines how to compute the duration of the slide transition.
+   * - `'fixed'`: Always uses the `speed` option.
+   * - `'distance'`: Scales the duration with the distance to travel, clamped by `minSpeed` and `maxSpeed`.
+   */
+  speedMode?: 'fixed' | 'distance';
+
+  /**
+   * The velocity in pixel per millisecond for the `'distance'` speed mode.
+   * The default value is `1.5`.
+   */
+  velocity?: number;
+
+  /**
+   * The minimum transition duration in milliseconds for the `'distance'` speed mode.
+   * The default value is `200`.
+   */
+  minSpeed?: number;
+
+  /**
+   * The maximum transition duration in milliseconds for the `'distance'` speed mode.
+   * The default value is `1200`.
+   */
+  maxSpeed?: number;
+
   /**
    * Allows to rewind by drag.
    * The slider `type` must be `slide` (or `undefined`) and the `drag` option must be enabled.
@@ -288,6 +415,18 @@ export interface ResponsiveOptions {
    */
   cloneStatus?: boolean;
 
+  /**
+   * Loops the slider by shifting the original slides at the edges instead of cloning them.
+   * This only works with the `loop` type, and requires enough slides to fill the viewport during transition.
+   */
+  rearrange?: boolean;
+
+  /**
+   * Keeps looping the slider by repeating clones when slides do not exceed `perPage`.
+   * The slider moves slide by slide, and the pagination is created for each original slide.
+   */
+  repeat?: boolean;
+
   /**
    * Determines which slide should be active if there are multiple slides in a page.
    * Numbers and `'center'` are acceptable.
@@ -358,6 +497,18 @@ export interface ResponsiveOptions {
    */
   dragMinThreshold?: number | { mouse: number, touch: number };
 
+  /**
+   * Allows to reorder slides by a long press instead of dragging the slider.
+   * The `drag` option must be enabled. This does not work in the virtual mode.
+   */
+  reorder?: boolean;
+
+  /**
+   * The duration of the press in milliseconds to start reordering slides.
+   * This only works when the `reorder` option is `true`.
+   */
+  reorderDelay?: number;
+
   /**
    * Determine the power of "flick". The larger number this is, the farther the slider runs.
    * Around 500 is recommended.